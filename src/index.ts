@@ -1,16 +1,60 @@
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHash,
+  createHmac,
+  randomBytes,
+  randomUUID,
+} from 'node:crypto';
+import { appendFile, readFile, stat } from 'node:fs/promises';
 import { serve } from '@hono/node-server';
 import { serveStatic } from '@hono/node-server/serve-static';
-import { type Context, Hono } from 'hono';
+import { type Context, Hono, type MiddlewareHandler } from 'hono';
 import { basicAuth } from 'hono/basic-auth';
+import { bearerAuth } from 'hono/bearer-auth';
 import { HTTPException } from 'hono/http-exception';
 import { prettyJSON } from 'hono/pretty-json';
+import { streamSSE } from 'hono/streaming';
 import { timeout } from 'hono/timeout';
-import { type Db, MongoClient } from 'mongodb';
+import { timingSafeEqual } from 'hono/utils/buffer';
+import {
+  type AnyBulkWriteOperation,
+  Binary,
+  BSON,
+  type BulkWriteResult,
+  type ChangeStream,
+  type ChangeStreamDocument,
+  type ClientSession,
+  type Db,
+  type Document,
+  type Filter,
+  type IndexDescriptionInfo,
+  MongoBulkWriteError,
+  MongoClient,
+  MongoServerError,
+  ObjectId,
+  type ResumeToken,
+  type Sort,
+  type Timestamp,
+  type WriteError,
+} from 'mongodb';
 import { z } from 'zod';
 
-const app = new Hono();
+const { EJSON } = BSON;
 
-let db: Db;
+type AppEnv = {
+  Variables: {
+    credential: Credential;
+    policies: CredentialPolicy[];
+    tenant: Tenant | null;
+    db: Db;
+    writtenCollections: string[];
+  };
+};
+
+const app = new Hono<AppEnv>();
+
+let defaultDb: Db;
 let client: MongoClient;
 
 type LogLevel = 'info' | 'error' | 'warn' | 'debug';
@@ -57,8 +101,15 @@ function requestLog(
   structuredLog(level, message, { requestId, ...data });
 }
 
+type SchemaViolation = {
+  path: string;
+  reason: string;
+  index?: number;
+};
+
 type ErrorResponse = {
   error: string;
+  violations?: SchemaViolation[];
   debug?: {
     message: string;
     stack: string | undefined;
@@ -68,6 +119,91 @@ type ErrorResponse = {
   };
 };
 
+// Flattens the errInfo.details MongoDB returns for $jsonSchema failures into
+// one entry per failing field, e.g. { path: 'address.zip', reason: '...' }
+function collectSchemaViolations(
+  rules: unknown,
+  path: string[],
+): SchemaViolation[] {
+  if (!Array.isArray(rules)) {
+    return [];
+  }
+
+  return rules.flatMap((rule): SchemaViolation[] => {
+    if (!isPlainObject(rule)) {
+      return [];
+    }
+
+    if (Array.isArray(rule.propertiesNotSatisfied)) {
+      return rule.propertiesNotSatisfied.flatMap((property) =>
+        collectSchemaViolations(property.details, [
+          ...path,
+          property.propertyName,
+        ]),
+      );
+    }
+
+    if (Array.isArray(rule.missingProperties)) {
+      return rule.missingProperties.map((property) => ({
+        path: [...path, property].join('.'),
+        reason: 'is required',
+      }));
+    }
+
+    if (Array.isArray(rule.additionalProperties)) {
+      return rule.additionalProperties.map((property) => ({
+        path: [...path, property].join('.'),
+        reason: 'is not allowed',
+      }));
+    }
+
+    if (Array.isArray(rule.details)) {
+      const itemPath =
+        typeof rule.itemIndex === 'number'
+          ? [...path, String(rule.itemIndex)]
+          : path;
+      return collectSchemaViolations(rule.details, itemPath);
+    }
+
+    return [
+      {
+        path: path.join('.'),
+        reason:
+          typeof rule.reason === 'string'
+            ? rule.reason
+            : `failed ${rule.operatorName}`,
+      },
+    ];
+  });
+}
+
+function getSchemaViolations(error: Error): SchemaViolation[] | null {
+  if (error instanceof MongoBulkWriteError) {
+    const writeErrors = [error.writeErrors].flat();
+    if (!writeErrors.some((writeError) => writeError.code === 121)) {
+      return null;
+    }
+
+    return writeErrors
+      .filter((writeError) => writeError.code === 121)
+      .flatMap((writeError) =>
+        collectSchemaViolations(
+          writeError.errInfo?.details?.schemaRulesNotSatisfied,
+          [],
+        ).map((violation) => ({ ...violation, index: writeError.index })),
+      );
+  }
+
+  if (error instanceof MongoServerError && error.code === 121) {
+    return collectSchemaViolations(
+      error.errInfo?.details?.schemaRulesNotSatisfied,
+      [],
+    );
+  }
+
+  return null;
+}
+
 app.onError((err, c) => {
   let status: HTTPException['status'] = 500;
   let message = 'Internal server error';
@@ -80,6 +216,19 @@ app.onError((err, c) => {
     errorResponse.error = message;
   }
 
+  // MaxTimeMSExpired, the query ran into its maxTimeMS
+  if (err instanceof MongoServerError && err.code === 50) {
+    status = 408;
+    errorResponse.error = 'Query exceeded its time limit';
+  }
+
+  const violations = getSchemaViolations(err);
+  if (violations) {
+    status = 400;
+    errorResponse.error = 'Document failed schema validation';
+    errorResponse.violations = violations;
+  }
+
   if (status >= 500) {
     requestLog(c, 'error', 'Internal server error', {
       error: {
@@ -117,328 +266,5623 @@ app.use('*', async (c, next) => {
     method,
     path,
     status: c.res.status,
+    credential: c.get('credential')?.id,
     duration: `${delta}ms`,
   });
 });
 
-app.use(
-  '*',
-  timeout(
-    10000,
-    () => new HTTPException(408, { message: 'Request timed out' }),
-  ),
+const requestTimeout = timeout(
+  10000,
+  () => new HTTPException(408, { message: 'Request timed out' }),
+);
+
+// Watch connections stay open indefinitely, they're limited by
+// WATCH_MAX_CONNECTIONS and closed when the client goes away instead
+app.use('*', (c, next) =>
+  c.req.path === '/v0/watch' ? next() : requestTimeout(c, next),
 );
 
 app.use('/openapi.yml', serveStatic({ path: '../openapi.yml' }));
 
-app.use(
-  '*',
-  basicAuth({
-    username: process.env.AUTH_USERNAME || 'admin',
-    password: process.env.AUTH_PASSWORD || 'password',
-    realm: 'MongoDB API',
-  }),
-);
+const credentialOperations = [
+  'read',
+  'write',
+  'delete',
+  'index',
+  'schema',
+  'collection',
+  'drop',
+  'transaction',
+  'watch',
+  'audit',
+  'decrypt',
+  'tenant',
+] as const;
 
-app.use(prettyJSON());
+type Operation = (typeof credentialOperations)[number];
 
-async function initMongoDB() {
-  const baseMongoUrl = process.env.MONGODB_URL;
-  if (!baseMongoUrl) {
-    throw new Error('MONGODB_URL is not set');
-  }
+// Policies restrict what a credential sees of the collections it can access.
+// The filter is added to every query, hidden fields are left out of responses
+// and redacted fields are replaced with a placeholder.
+const CredentialPolicySchema = z.object({
+  collection: z.string(),
+  filter: z.looseObject({}).optional(),
+  hiddenFields: z.array(z.string()).default([]),
+  redactedFields: z.array(z.string()).default([]),
+});
 
-  const mongoUrl = new URL(baseMongoUrl);
-  // Only set secondaryPreferred for non-transaction operations
-  // For transactions, we'll use primary read preference by default
-  if (!mongoUrl.searchParams.has('readPreference')) {
-    mongoUrl.searchParams.set('readPreference', 'secondaryPreferred');
-  }
+type CredentialPolicy = z.infer<typeof CredentialPolicySchema>;
 
-  const dbName = process.env.DB_NAME;
-  if (!dbName) {
-    throw new Error('DB_NAME is not set');
+const CredentialSchema = z.object({
+  id: z.string(),
+  tokenHashes: z.array(z.string()).min(1),
+  collections: z.array(z.string()).min(1),
+  operations: z.array(z.enum(credentialOperations)).min(1),
+  policies: z.array(CredentialPolicySchema).default([]),
+  tenants: z.array(z.string()).default([]),
+  revoked: z.boolean().default(false),
+});
+
+const CredentialsFileSchema = z.object({
+  credentials: z.array(CredentialSchema),
+});
+
+type StoredCredential = z.infer<typeof CredentialSchema>;
+
+type Credential = Pick<
+  StoredCredential,
+  'id' | 'collections' | 'operations' | 'policies' | 'tenants'
+>;
+
+const authModes = (process.env.AUTH_MODES || 'basic,bearer')
+  .split(',')
+  .map((mode) => mode.trim().toLowerCase());
+
+const systemCollectionPrefix = '_wrongo_';
+
+function isSystemCollection(collection: string) {
+  return (
+    collection.startsWith(systemCollectionPrefix) ||
+    collection === process.env.CREDENTIALS_COLLECTION
+  );
+}
+
+function hashToken(token: string) {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+let credentialsFileCache: {
+  mtimeMs: number;
+  credentials: StoredCredential[];
+} | null = null;
+
+// The file is re-read whenever it changes on disk, so credentials can be
+// added, rotated or revoked without restarting the server
+async function loadCredentialsFile(): Promise<StoredCredential[]> {
+  const path = process.env.CREDENTIALS_FILE;
+  if (!path) {
+    return [];
   }
 
   try {
-    client = new MongoClient(mongoUrl.toString());
-    await client.connect();
-    db = client.db(dbName);
-    structuredLog('info', 'Connected to MongoDB', {
-      url: mongoUrl.toString(),
-      database: dbName,
-    });
+    const { mtimeMs } = await stat(path);
+    if (credentialsFileCache?.mtimeMs !== mtimeMs) {
+      // Parsed as EJSON so policy filters can match ObjectIds and dates
+      const contents = EJSON.parse(await readFile(path, 'utf8'));
+      const { credentials } = CredentialsFileSchema.parse(contents);
+      credentialsFileCache = { mtimeMs, credentials };
+      structuredLog('info', 'Loaded credentials file', {
+        path,
+        count: credentials.length,
+      });
+    }
   } catch (error) {
-    errorLog('error', 'Failed to connect to MongoDB', error, {
-      url: mongoUrl.toString(),
-      database: dbName,
-    });
-    process.exit(1);
+    // Keep serving the last valid version of the file
+    errorLog('error', 'Failed to load credentials file', error, { path });
   }
+
+  return credentialsFileCache?.credentials ?? [];
 }
 
-function validateWithZod<T>(schema: z.ZodSchema<T>, data: unknown): T {
-  const result = schema.safeParse(data);
+async function findCredentialByToken(
+  token: string,
+): Promise<Credential | null> {
+  const tokenHash = hashToken(token);
+
+  const fileCredentials = await loadCredentialsFile();
+  const fileCredential = fileCredentials.find(
+    (credential) =>
+      !credential.revoked && credential.tokenHashes.includes(tokenHash),
+  );
+  if (fileCredential) {
+    return fileCredential;
+  }
+
+  const credentialsCollection = process.env.CREDENTIALS_COLLECTION;
+  if (!credentialsCollection) {
+    return null;
+  }
+
+  // Read from the primary so revocations take effect immediately
+  const document = await defaultDb
+    .collection(credentialsCollection)
+    .findOne(
+      { tokenHashes: tokenHash, revoked: { $ne: true } },
+      { readPreference: 'primary' },
+    );
+  if (!document) {
+    return null;
+  }
+
+  const result = CredentialSchema.safeParse(document);
   if (!result.success) {
-    const errors = result.error.issues
-      .map((issue) => `${issue.path.join('.')}: ${issue.message}`)
-      .join(', ');
-    throw new HTTPException(400, { message: `Validation error: ${errors}` });
+    errorLog('warn', 'Ignoring invalid credential document', result.error, {
+      credentialId: document._id,
+    });
+    return null;
   }
+
   return result.data;
 }
 
-app.get('/', async (c) => {
-  await db.stats();
+const basicAuthMiddleware = basicAuth({
+  realm: 'MongoDB API',
+  verifyUser: async (username, password, c) => {
+    const [usernameEqual, passwordEqual] = await Promise.all([
+      timingSafeEqual(process.env.AUTH_USERNAME || 'admin', username),
+      timingSafeEqual(process.env.AUTH_PASSWORD || 'password', password),
+    ]);
+    if (!usernameEqual || !passwordEqual) {
+      return false;
+    }
 
-  return c.json({
-    data: {
-      message: 'MongoDB API is running',
-      version: 'v0',
-    },
-  });
+    c.set('credential', {
+      id: username,
+      collections: ['*'],
+      operations: [...credentialOperations],
+      policies: [],
+      tenants: ['*'],
+    });
+    return true;
+  },
 });
 
-const FindSchema = z.object({
-  collection: z.string(),
-  filter: z.looseObject({}).default({}),
-  options: z.looseObject({}).default({}),
+const bearerAuthMiddleware = bearerAuth({
+  realm: 'MongoDB API',
+  verifyToken: async (token, c) => {
+    const credential = await findCredentialByToken(token);
+    if (!credential) {
+      return false;
+    }
+
+    c.set('credential', {
+      id: credential.id,
+      collections: credential.collections,
+      operations: credential.operations,
+      policies: credential.policies,
+      tenants: credential.tenants,
+    });
+    return true;
+  },
 });
 
-app.post('/v0/find', async (c) => {
-  const body = await c.req.json();
-  const { collection, filter, options } = validateWithZod(FindSchema, body);
-  const result = await db
-    .collection(collection)
-    .find(filter, options)
-    .toArray();
+const signatureMaxSkewMs = Number.parseInt(
+  process.env.SIGNATURE_MAX_SKEW_MS || '300000',
+  10,
+);
 
-  return c.json({
-    data: result,
-    count: result.length,
-  });
-});
+const noncesCollection = `${systemCollectionPrefix}nonces`;
 
-const FindOneSchema = z.object({
-  collection: z.string(),
-  filter: z.any().default({}),
-  options: z.any().default({}),
-});
+// Nonces are kept until their timestamp falls outside the skew window, after
+// which a replay would be rejected by the timestamp check anyway
+async function recordNonce(nonce: string, timestamp: number) {
+  try {
+    await defaultDb
+      .collection<{ _id: string; expiresAt: Date }>(noncesCollection)
+      .insertOne({
+        _id: nonce,
+        expiresAt: new Date(timestamp + signatureMaxSkewMs),
+      });
+    return true;
+  } catch (error) {
+    if (error instanceof MongoServerError && error.code === 11000) {
+      return false;
+    }
+    throw error;
+  }
+}
 
-app.post('/v0/find-one', async (c) => {
-  const body = await c.req.json();
-  const { collection, filter, options } = validateWithZod(FindOneSchema, body);
-  const result = await db.collection(collection).findOne(filter, options);
+// Workers sign `${method}\n${path}\n${timestamp}\n${nonce}\n${sha256(body)}`
+// with SIGNING_SECRET and send it as a hex HMAC-SHA256 in X-Signature
+const signedAuthMiddleware: MiddlewareHandler<AppEnv> = async (c, next) => {
+  const secret = process.env.SIGNING_SECRET;
+  const timestamp = c.req.header('x-signature-timestamp');
+  const nonce = c.req.header('x-signature-nonce');
+  const signature = c.req.header('x-signature');
 
-  return c.json({
-    data: result,
-  });
-});
+  if (!secret || !timestamp || !nonce || !signature) {
+    throw new HTTPException(401, { message: 'Unauthorized' });
+  }
 
-const InsertOneSchema = z
-  .object({
-    collection: z.string(),
-    document: z.looseObject({}),
-    options: z.looseObject({}).default({}),
-  })
-  .strict();
+  const requestTime = Number(timestamp);
+  if (
+    !Number.isFinite(requestTime) ||
+    Math.abs(Date.now() - requestTime) > signatureMaxSkewMs
+  ) {
+    throw new HTTPException(401, {
+      message: 'Request timestamp is outside the allowed clock skew',
+    });
+  }
 
-app.post('/v0/insert-one', async (c) => {
-  const body = await c.req.json();
-  const { collection, document, options } = validateWithZod(
-    InsertOneSchema,
-    body,
-  );
-  const result = await db.collection(collection).insertOne(document, options);
+  const { pathname, search } = new URL(c.req.url);
+  const bodyHash = createHash('sha256')
+    .update(await c.req.text())
+    .digest('hex');
+  const expectedSignature = createHmac('sha256', secret)
+    .update(
+      [c.req.method, `${pathname}${search}`, timestamp, nonce, bodyHash].join(
+        '\n',
+      ),
+    )
+    .digest('hex');
 
-  const insertedDocument = await db
-    .collection(collection)
-    .findOne({ _id: result.insertedId });
+  if (!(await timingSafeEqual(expectedSignature, signature.toLowerCase()))) {
+    throw new HTTPException(401, { message: 'Invalid request signature' });
+  }
 
-  return c.json({
-    data: insertedDocument,
+  if (!(await recordNonce(nonce, requestTime))) {
+    throw new HTTPException(401, { message: 'Request nonce has been used' });
+  }
+
+  c.set('credential', {
+    id: 'signed',
+    collections: ['*'],
+    operations: [...credentialOperations],
+    policies: [],
+    tenants: ['*'],
   });
-});
+  await next();
+};
 
-const InsertManySchema = z.object({
-  collection: z.string(),
-  documents: z.array(z.looseObject({})),
-  options: z.looseObject({}).default({}),
-});
+app.use('*', async (c, next) => {
+  const scheme = c.req.header('authorization')?.split(' ')[0]?.toLowerCase();
 
-app.post('/v0/insert-many', async (c) => {
-  const body = await c.req.json();
-  const { collection, documents, options } = validateWithZod(
-    InsertManySchema,
-    body,
-  );
-  const result = await db.collection(collection).insertMany(documents, options);
+  if (c.req.header('x-signature') && authModes.includes('signed')) {
+    return signedAuthMiddleware(c, next);
+  }
 
-  const insertedDocuments = await db
-    .collection(collection)
-    .find({ _id: { $in: Object.values(result.insertedIds) } })
-    .toArray();
+  if (scheme === 'bearer' && authModes.includes('bearer')) {
+    return bearerAuthMiddleware(c, next);
+  }
 
-  return c.json({
-    data: insertedDocuments,
-    count: result.insertedCount,
-  });
-});
+  if (authModes.includes('basic')) {
+    return basicAuthMiddleware(c, next);
+  }
 
-const UpdateOneSchema = z.object({
-  collection: z.string(),
-  filter: z.looseObject({}),
-  update: z.looseObject({}),
-  options: z.looseObject({}).default({}),
+  throw new HTTPException(401, { message: 'Unauthorized' });
 });
 
-app.post('/v0/update-one', async (c) => {
-  const body = await c.req.json();
-  const { collection, filter, update, options } = validateWithZod(
-    UpdateOneSchema,
-    body,
-  );
-
-  const result = await db
-    .collection(collection)
-    .findOneAndUpdate(filter, update, { ...options, returnDocument: 'after' });
+function matchesCollectionPattern(pattern: string, collection: string) {
+  if (pattern === collection) {
+    return true;
+  }
 
-  return c.json({
-    data: result,
-  });
-});
+  // Wildcards never grant access to the API's own bookkeeping collections
+  if (!pattern.endsWith('*') || isSystemCollection(collection)) {
+    return false;
+  }
 
-const UpdateManySchema = z.object({
-  collection: z.string(),
-  filter: z.looseObject({}),
-  update: z.looseObject({}),
-  options: z.looseObject({}).default({}),
-});
+  return collection.startsWith(pattern.slice(0, -1));
+}
 
-app.post('/v0/update-many', async (c) => {
-  const body = await c.req.json();
-  const { collection, filter, update, options } = validateWithZod(
-    UpdateManySchema,
-    body,
+function canAccessCollection(credential: Credential, collection: string) {
+  return credential.collections.some((pattern) =>
+    matchesCollectionPattern(pattern, collection),
   );
+}
 
-  const documentsToUpdate = await db
-    .collection(collection)
-    .find(filter)
-    .toArray();
-  const idsToUpdate = documentsToUpdate.map((doc) => doc._id);
+// The first policy whose pattern matches the collection applies. Tenants
+// isolated by field add their tenantId to it.
+function getCollectionPolicy(
+  c: Context<AppEnv>,
+  collection: string,
+): CredentialPolicy | undefined {
+  const policy = c
+    .get('credential')
+    .policies.find((candidate) =>
+      matchesCollectionPattern(candidate.collection, collection),
+    );
 
-  const updateResult = await db
-    .collection(collection)
-    .updateMany(filter, update, options);
+  const tenant = c.get('tenant');
+  if (tenant?.isolation !== 'field') {
+    return policy;
+  }
 
-  const updatedDocuments = await db
-    .collection(collection)
-    .find({ _id: { $in: idsToUpdate } })
-    .toArray();
+  return {
+    collection,
+    hiddenFields: [],
+    redactedFields: [],
+    ...policy,
+    filter: { ...policy?.filter, [tenantIdField]: tenant._id },
+  };
+}
 
-  return c.json({
-    data: updatedDocuments,
-    modifiedCount: updateResult.modifiedCount,
-  });
-});
+function authorize(
+  c: Context<AppEnv>,
+  operation: Operation,
+  collections: string[] = [],
+) {
+  const credential = c.get('credential');
 
-const DeleteOneSchema = z.object({
-  collection: z.string(),
-  filter: z.looseObject({}),
-  options: z.looseObject({}).default({}),
-});
+  if (!credential.operations.includes(operation)) {
+    throw new HTTPException(403, {
+      message: `Credential is not allowed to perform ${operation} operations`,
+    });
+  }
 
-app.post('/v0/delete-one', async (c) => {
-  const body = await c.req.json();
-  const { collection, filter, options } = validateWithZod(
-    DeleteOneSchema,
-    body,
+  // Tenants isolated by field share their collections with other tenants
+  if (
+    c.get('tenant')?.isolation === 'field' &&
+    sharedCollectionOperations.includes(operation)
+  ) {
+    throw new HTTPException(403, {
+      message: `Tenants isolated by field are not allowed to perform ${operation} operations`,
+    });
+  }
+
+  for (const collection of collections) {
+    if (!canAccessCollection(credential, collection)) {
+      throw new HTTPException(403, {
+        message: `Credential is not allowed to access collection ${collection}`,
+      });
+    }
+  }
+
+  // Remember the policies of every collection the request touches, so the
+  // response can be filtered by jsonResponse
+  const policies = collections.flatMap(
+    (collection) => getCollectionPolicy(c, collection) ?? [],
   );
-  const result = await db.collection(collection).deleteOne(filter, options);
+  if (policies.length > 0) {
+    c.set('policies', [...(c.get('policies') ?? []), ...policies]);
+  }
 
-  return c.json({
-    deletedCount: result.deletedCount,
-  });
-});
+  // Also remember every collection it may change, so cached reads of them
+  // can be invalidated once the request is done
+  if (readCacheInvalidatingOperations.includes(operation)) {
+    c.set('writtenCollections', [
+      ...(c.get('writtenCollections') ?? []),
+      ...collections,
+    ]);
+  }
+}
 
-const DeleteManySchema = z.object({
-  collection: z.string(),
-  filter: z.looseObject({}),
-  options: z.looseObject({}).default({}),
-});
+const tenantsCollection = `${systemCollectionPrefix}tenants`;
 
-app.post('/v0/delete-many', async (c) => {
-  const body = await c.req.json();
-  const { collection, filter, options } = validateWithZod(
-    DeleteManySchema,
-    body,
-  );
-  const result = await db.collection(collection).deleteMany(filter, options);
+const tenantIdField = 'tenantId';
 
-  return c.json({
-    deletedCount: result.deletedCount,
-  });
-});
+const tenantIsolations = ['database', 'field'] as const;
 
-const CountSchema = z.object({
-  collection: z.string(),
+// Tenants either get a database of their own, or share a database in which
+// every document they can see or write carries their tenantId
+type Tenant = {
+  _id: string;
+  isolation: (typeof tenantIsolations)[number];
+  database: string;
+  createdAt: Date;
+};
+
+const sharedCollectionOperations: Operation[] = [
+  'collection',
+  'drop',
+  'index',
+  'schema',
+];
+
+// Collection listings and statistics cover the whole database, so they'd
+// reveal what other tenants sharing it have stored
+function assertNotSharedTenant(c: Context<AppEnv>, action: string) {
+  if (c.get('tenant')?.isolation === 'field') {
+    throw new HTTPException(403, {
+      message: `Tenants isolated by field are not allowed to ${action}`,
+    });
+  }
+}
+
+const tenantsCacheMs = 5000;
+
+const tenantsCache = new Map<
+  string,
+  { tenant: Tenant | null; expiresAt: number }
+>();
+
+async function getTenant(id: string): Promise<Tenant | null> {
+  const cached = tenantsCache.get(id);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.tenant;
+  }
+
+  const tenant = await defaultDb
+    .collection<Tenant>(tenantsCollection)
+    .findOne({ _id: id }, { readPreference: 'primary' });
+
+  tenantsCache.set(id, { tenant, expiresAt: Date.now() + tenantsCacheMs });
+  return tenant;
+}
+
+function canAccessTenant(credential: Credential, tenant: string) {
+  return credential.tenants.some(
+    (pattern) => pattern === '*' || pattern === tenant,
+  );
+}
+
+// Requests run against DB_NAME unless X-Tenant selects a tenant. Credentials
+// limited to specific tenants always run in one of them, the first by default.
+app.use('*', async (c, next) => {
+  const credential = c.get('credential');
+  const id =
+    c.req.header('x-tenant') ??
+    credential.tenants.find((pattern) => pattern !== '*');
+
+  if (id === undefined) {
+    c.set('tenant', null);
+    c.set('db', defaultDb);
+    return next();
+  }
+
+  if (!canAccessTenant(credential, id)) {
+    throw new HTTPException(403, {
+      message: `Credential is not allowed to access tenant ${id}`,
+    });
+  }
+
+  const tenant = await getTenant(id);
+  if (!tenant) {
+    throw new HTTPException(404, { message: `Tenant ${id} does not exist` });
+  }
+
+  c.set('tenant', tenant);
+  c.set('db', client.db(tenant.database));
+  return next();
+});
+
+app.use(prettyJSON());
+
+const idempotencyKeysCollection = `${systemCollectionPrefix}idempotency_keys`;
+
+const idempotencyTtlSeconds = Number.parseInt(
+  process.env.IDEMPOTENCY_TTL_SECONDS || '86400',
+  10,
+);
+
+// How long a key stays locked by a request that never finished, e.g. because
+// the server crashed mid-request
+const idempotencyPendingSeconds = 60;
+
+const idempotentRoutes = [
+  '/v0/insert-one',
+  '/v0/insert-many',
+  '/v0/update-one',
+  '/v0/update-many',
+  '/v0/delete-one',
+  '/v0/delete-many',
+  '/v0/restore',
+  '/v0/purge',
+  '/v0/bulk-write',
+  '/v0/transaction',
+];
+
+type IdempotencyRecord = {
+  _id: { credential: string; key: string; tenant?: string };
+  fingerprint: string;
+  expiresAt: Date;
+  response?: {
+    status: number;
+    headers: Record<string, string>;
+    body: string | Binary;
+  };
+};
+
+// Response headers that are replayed along with the body, e.g. the ETag of a
+// versioned document that the client sends back in If-Match
+const idempotentResponseHeaders = ['content-type', 'etag'];
+
+// Stored responses can hold decrypted values, so they're encrypted with the
+// active key whenever encryption is configured
+function sealIdempotentBody(body: string): string | Binary {
+  return encryptionKeys.length > 0
+    ? encryptValue(body, 'random', getActiveEncryptionKey())
+    : body;
+}
+
+function openIdempotentBody(body: string | Binary): string {
+  return typeof body === 'string' ? body : String(decryptValue(body).value);
+}
+
+// Keys are scoped to the credential and tenant, so Workers can't collide with
+// or replay each other's responses. Responses with a 5xx status aren't
+// stored, so the request can be retried with the same key.
+const idempotencyMiddleware: MiddlewareHandler<AppEnv> = async (c, next) => {
+  const key = c.req.header('idempotency-key');
+  if (key === undefined) {
+    return next();
+  }
+
+  if (key.length === 0 || key.length > 255) {
+    throw new HTTPException(400, {
+      message: 'Idempotency-Key must be between 1 and 255 characters',
+    });
+  }
+
+  const keys = defaultDb.collection<IdempotencyRecord>(
+    idempotencyKeysCollection,
+  );
+  const tenant = c.get('tenant');
+  const _id = {
+    credential: c.get('credential').id,
+    key,
+    ...(tenant ? { tenant: tenant._id } : {}),
+  };
+  // If-Match changes what the request does just like its body
+  const ifMatch = c.req.header('if-match') ?? '';
+  const fingerprint = createHash('sha256')
+    .update(`${c.req.method}\n${c.req.path}\n${ifMatch}\n${await c.req.text()}`)
+    .digest('hex');
+
+  try {
+    await keys.insertOne({
+      _id,
+      fingerprint,
+      expiresAt: new Date(Date.now() + idempotencyPendingSeconds * 1000),
+    });
+  } catch (error) {
+    if (!(error instanceof MongoServerError && error.code === 11000)) {
+      throw error;
+    }
+
+    const existing = await keys.findOne({ _id }, { readPreference: 'primary' });
+    if (existing?.fingerprint !== fingerprint) {
+      throw new HTTPException(422, {
+        message: 'Idempotency-Key was already used for a different request',
+      });
+    }
+    if (!existing.response) {
+      throw new HTTPException(409, {
+        message: 'A request with this Idempotency-Key is still in progress',
+      });
+    }
+
+    requestLog(c, 'info', 'Replayed idempotent request', { key });
+
+    const { status, headers, body } = existing.response;
+    return new Response(openIdempotentBody(body), {
+      status,
+      headers: { ...headers, 'Idempotency-Replayed': 'true' },
+    });
+  }
+
+  await next();
+
+  if (c.res.status >= 500) {
+    await keys.deleteOne({ _id });
+    return;
+  }
+
+  await keys.updateOne(
+    { _id },
+    {
+      $set: {
+        expiresAt: new Date(Date.now() + idempotencyTtlSeconds * 1000),
+        response: {
+          status: c.res.status,
+          headers: Object.fromEntries(
+            idempotentResponseHeaders.flatMap((name) => {
+              const value = c.res.headers.get(name);
+              return value === null ? [] : [[name, value]];
+            }),
+          ),
+          body: sealIdempotentBody(await c.res.clone().text()),
+        },
+      },
+    },
+  );
+};
+
+for (const route of idempotentRoutes) {
+  app.use(route, idempotencyMiddleware);
+}
+
+const readCacheSize = Number.parseInt(process.env.READ_CACHE_SIZE || '0', 10);
+
+const readCacheTtlMs = Number.parseInt(
+  process.env.READ_CACHE_TTL_MS || '10000',
+  10,
+);
+
+const readCacheRoutes = ['/v0/find', '/v0/find-one', '/v0/count'];
+
+const readCacheInvalidatingOperations: Operation[] = [
+  'write',
+  'delete',
+  'collection',
+  'drop',
+];
+
+type ReadCacheEntry = {
+  namespace: string;
+  generation: number;
+  value: unknown;
+  storedAt: number;
+};
+
+const readCache = new Map<string, ReadCacheEntry>();
+
+// Bumped when a request that may have written to a collection is done,
+// which turns every entry cached before that into a miss. Reads still
+// running keep the generation they started with, so they can't cache what
+// they read from before the write either.
+const readCacheGenerations = new Map<string, number>();
+
+function invalidateReadCache(db: Db, collection: string) {
+  const namespace = getNamespace(db, collection);
+  readCacheGenerations.set(
+    namespace,
+    (readCacheGenerations.get(namespace) ?? 0) + 1,
+  );
+}
+
+function clearReadCache(database: string) {
+  for (const [key, entry] of readCache) {
+    if (entry.namespace.startsWith(`${database}.`)) {
+      readCache.delete(key);
+    }
+  }
+}
+
+// Order doesn't matter at the top of a filter or between operators, but it
+// does in embedded documents, which only match with their fields in order
+function normalizeFilter(filter: Document): Document {
+  const byKey = (a: [string, unknown], b: [string, unknown]) =>
+    a[0].localeCompare(b[0]);
+  return Object.fromEntries(
+    Object.entries(filter)
+      .sort(byKey)
+      .map(([key, value]) => {
+        if (['$and', '$or', '$nor'].includes(key) && Array.isArray(value)) {
+          return [key, value.map((item) => normalizeFilter(item))];
+        }
+        if (
+          isPlainObject(value) &&
+          Object.keys(value).every((operator) => operator.startsWith('$'))
+        ) {
+          return [key, Object.fromEntries(Object.entries(value).sort(byKey))];
+        }
+        return [key, value];
+      }),
+  );
+}
+
+// Requests can ask for a copy no older than Cache-Control: max-age, skip the
+// cache with no-cache, or also keep their result out of it with no-store
+function getRequestCacheControl(c: Context<AppEnv>) {
+  const directives = (c.req.header('cache-control') ?? '')
+    .toLowerCase()
+    .split(',')
+    .map((directive) => directive.trim());
+  const maxAge = directives.find((directive) =>
+    directive.startsWith('max-age='),
+  );
+  const noCache =
+    directives.includes('no-cache') || directives.includes('no-store');
+
+  return {
+    maxAgeMs: noCache
+      ? -1
+      : maxAge
+        ? Number.parseInt(maxAge.slice('max-age='.length), 10) * 1000
+        : readCacheTtlMs,
+    store: !directives.includes('no-store'),
+  };
+}
+
+// Results are cached before jsonResponse, which decrypts values and applies
+// field policies for each credential. Filters are managed by then, so
+// credentials with different policy filters get different entries.
+async function cachedRead<T>(
+  c: Context<AppEnv>,
+  collection: string,
+  query: Record<string, unknown>,
+  read: () => Promise<T>,
+): Promise<T> {
+  if (readCacheSize <= 0) {
+    return read();
+  }
+
+  const namespace = getNamespace(c.get('db'), collection);
+  const generation = readCacheGenerations.get(namespace) ?? 0;
+  const key = fingerprintQuery({ namespace, route: c.req.path, ...query });
+  const { maxAgeMs, store } = getRequestCacheControl(c);
+
+  const cached = readCache.get(key);
+  const age = cached ? Date.now() - cached.storedAt : 0;
+  if (
+    cached?.generation === generation &&
+    age <= Math.min(maxAgeMs, readCacheTtlMs)
+  ) {
+    setCacheEntry(readCache, key, cached, readCacheSize);
+    c.header('Age', String(Math.floor(age / 1000)));
+    return cached.value as T;
+  }
+
+  const value = await read();
+  if (store) {
+    setCacheEntry(
+      readCache,
+      key,
+      { namespace, generation, value, storedAt: Date.now() },
+      readCacheSize,
+    );
+  }
+  return value;
+}
+
+const notModifiedHeaders = ['cache-control', 'etag', 'vary'];
+
+// Reads carry an ETag of their response, so Workers can keep their own copy
+// and revalidate it with If-None-Match
+const readCacheMiddleware: MiddlewareHandler<AppEnv> = async (c, next) => {
+  await next();
+
+  if (c.res.status !== 200) {
+    return;
+  }
+
+  c.header('Cache-Control', 'private, no-cache');
+
+  // find-one results of versioned collections carry the document version
+  // for If-Match instead, which doesn't tell responses apart
+  if (c.res.headers.has('etag')) {
+    return;
+  }
+
+  const etag = `"${createHash('sha256')
+    .update(await c.res.clone().text())
+    .digest('base64url')}"`;
+  c.header('ETag', etag);
+
+  const ifNoneMatch = c.req.header('if-none-match') ?? '';
+  const tags = ifNoneMatch.split(',').map((tag) => tag.trim());
+  if (tags.some((tag) => tag === '*' || tag.replace(/^W\//, '') === etag)) {
+    c.res = new Response(null, { status: 304 });
+    for (const [header] of [...c.res.headers]) {
+      if (!notModifiedHeaders.includes(header)) {
+        c.res.headers.delete(header);
+      }
+    }
+  }
+};
+
+for (const route of readCacheRoutes) {
+  app.use(route, readCacheMiddleware);
+}
+
+app.use('*', async (c, next) => {
+  await next();
+
+  for (const collection of new Set(c.get('writtenCollections'))) {
+    invalidateReadCache(c.get('db'), collection);
+  }
+});
+
+const auditLogSinks = ['off', 'collection', 'file'] as const;
+
+const auditLogSink = process.env.AUDIT_LOG || 'off';
+const auditLogFile = process.env.AUDIT_LOG_FILE || 'audit.jsonl';
+const auditLogImages = process.env.AUDIT_LOG_IMAGES === 'true';
+
+const auditLogCollection = `${systemCollectionPrefix}audit_log`;
+
+type AuditChange = {
+  operation: string;
+  collection: string;
+  filter?: Document;
+  update?: Document;
+  replacement?: Document;
+  documentIds: unknown[];
+  before?: Document[];
+  after?: Document[];
+};
+
+// Looks up the documents a write is about to change, so their _ids are known
+// even once they're deleted. Full documents are only read for before images.
+async function findAuditTargets(
+  db: Db,
+  collection: string,
+  filter: Document,
+  options: { limit?: number; session?: ClientSession } = {},
+): Promise<Document[]> {
+  if (auditLogSink === 'off') {
+    return [];
+  }
+
+  const { session, ...findOptions } = options;
+  return db
+    .collection(collection)
+    .find(filter, {
+      ...findOptions,
+      ...(session ? { session } : { readPreference: 'primary' }),
+      ...(auditLogImages ? {} : { projection: { _id: 1 } }),
+    })
+    .toArray();
+}
+
+async function getAuditChange(
+  db: Db,
+  change: Omit<AuditChange, 'before' | 'after'>,
+  before: Document[],
+  session?: ClientSession,
+): Promise<AuditChange> {
+  if (auditLogSink === 'off') {
+    return change;
+  }
+
+  // Values of encrypted fields are recorded the way they're stored
+  const settings = await getCollectionSettings(db, change.collection);
+  const { filter, update, replacement } = change;
+  const encrypted: AuditChange = {
+    ...change,
+    ...(filter ? { filter: encryptFilter(filter, settings) } : {}),
+    ...(update ? { update: encryptUpdate(update, settings) } : {}),
+    ...(replacement
+      ? { replacement: encryptFields(replacement, settings) }
+      : {}),
+  };
+  if (!auditLogImages) {
+    return encrypted;
+  }
+
+  const idFilter: Document = { _id: { $in: change.documentIds } };
+  const after = await db
+    .collection(change.collection)
+    .find(idFilter, session ? { session } : { readPreference: 'primary' })
+    .toArray();
+
+  return { ...encrypted, before, after };
+}
+
+// Audit entries are written after the write succeeded, or after the
+// transaction committed. A failing sink is logged but doesn't fail the
+// request, since the data has already changed by then.
+async function writeAuditLog(c: Context<AppEnv>, changes: AuditChange[]) {
+  if (auditLogSink === 'off' || changes.length === 0) {
+    return;
+  }
+
+  const timestamp = new Date();
+  const requestId = c.req.header('x-request-id') || 'unknown';
+  const tenant = c.get('tenant');
+  const entries = changes.map((change) => ({
+    timestamp,
+    requestId,
+    credential: c.get('credential').id,
+    ...(tenant ? { tenant: tenant._id } : {}),
+    route: c.req.path,
+    ...change,
+  }));
+
+  try {
+    if (auditLogSink === 'file') {
+      await appendFile(
+        auditLogFile,
+        entries
+          .map((entry) => `${EJSON.stringify(entry, { relaxed: false })}\n`)
+          .join(''),
+      );
+    } else {
+      await defaultDb.collection(auditLogCollection).insertMany(entries);
+    }
+  } catch (error) {
+    errorLog('error', 'Failed to write audit log', error, {
+      requestId,
+      sink: auditLogSink,
+    });
+  }
+}
+
+async function initAuditLog() {
+  if (!auditLogSinks.some((sink) => sink === auditLogSink)) {
+    throw new Error(`AUDIT_LOG must be one of ${auditLogSinks.join(', ')}`);
+  }
+
+  if (auditLogSink !== 'collection') {
+    return;
+  }
+
+  await defaultDb
+    .collection(auditLogCollection)
+    .createIndexes([
+      { key: { collection: 1, timestamp: -1 } },
+      { key: { documentIds: 1, timestamp: -1 } },
+    ]);
+}
+
+const AuditLogQuerySchema = z.object({
+  collection: z.string(),
+  documentId: z.string().optional(),
+  from: z.iso.datetime().optional(),
+  to: z.iso.datetime().optional(),
+  limit: z.coerce.number().int().positive().max(1000).default(100),
+});
+
+// Document ids are Extended JSON, e.g. {"$oid":"..."} or 42. Anything else is
+// taken as a string id, and 24 character hex strings match ObjectIds too.
+function parseAuditDocumentId(documentId: string): unknown {
+  if (ObjectId.isValid(documentId) && documentId.length === 24) {
+    return { $in: [documentId, new ObjectId(documentId)] };
+  }
+
+  try {
+    return EJSON.parse(documentId);
+  } catch {
+    return documentId;
+  }
+}
+
+app.get('/v0/audit-log', async (c) => {
+  const { collection, documentId, from, to, limit } = validateWithZod(
+    AuditLogQuerySchema,
+    c.req.query(),
+  );
+
+  authorize(c, 'audit', [collection]);
+
+  if (auditLogSink !== 'collection') {
+    throw new HTTPException(400, {
+      message: 'Audit log queries require AUDIT_LOG=collection',
+    });
+  }
+
+  // Entries of other tenants, and of the default database, stay hidden
+  const filter: Document = { collection, tenant: c.get('tenant')?._id ?? null };
+  if (documentId !== undefined) {
+    filter.documentIds = parseAuditDocumentId(documentId);
+  }
+  if (from !== undefined || to !== undefined) {
+    filter.timestamp = {
+      ...(from !== undefined ? { $gte: new Date(from) } : {}),
+      ...(to !== undefined ? { $lte: new Date(to) } : {}),
+    };
+  }
+
+  const entries = await defaultDb
+    .collection(auditLogCollection)
+    .find(filter, withReadLimits({ readPreference: 'primary' }))
+    .sort({ timestamp: -1, _id: -1 })
+    .limit(limit)
+    .toArray();
+
+  return jsonResponse(c, {
+    data: entries,
+    count: entries.length,
+  });
+});
+
+async function initMongoDB() {
+  const baseMongoUrl = process.env.MONGODB_URL;
+  if (!baseMongoUrl) {
+    throw new Error('MONGODB_URL is not set');
+  }
+
+  const mongoUrl = new URL(baseMongoUrl);
+  // Only set secondaryPreferred for non-transaction operations
+  // For transactions, we'll use primary read preference by default
+  if (!mongoUrl.searchParams.has('readPreference')) {
+    mongoUrl.searchParams.set('readPreference', 'secondaryPreferred');
+  }
+
+  const dbName = process.env.DB_NAME;
+  if (!dbName) {
+    throw new Error('DB_NAME is not set');
+  }
+
+  try {
+    client = new MongoClient(mongoUrl.toString(), {
+      monitorCommands: slowQueryMs > 0,
+    });
+    if (slowQueryMs > 0) {
+      watchSlowQueries(client);
+    }
+    await client.connect();
+    defaultDb = client.db(dbName);
+    structuredLog('info', 'Connected to MongoDB', {
+      url: mongoUrl.toString(),
+      database: dbName,
+    });
+  } catch (error) {
+    errorLog('error', 'Failed to connect to MongoDB', error, {
+      url: mongoUrl.toString(),
+      database: dbName,
+    });
+    process.exit(1);
+  }
+}
+
+async function initCredentialsCollection() {
+  const credentialsCollection = process.env.CREDENTIALS_COLLECTION;
+  if (!credentialsCollection) {
+    return;
+  }
+
+  await defaultDb
+    .collection(credentialsCollection)
+    .createIndex({ tokenHashes: 1 });
+}
+
+async function initIdempotencyKeysCollection() {
+  await defaultDb
+    .collection(idempotencyKeysCollection)
+    .createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+}
+
+async function initNoncesCollection() {
+  if (!authModes.includes('signed')) {
+    return;
+  }
+
+  await defaultDb
+    .collection(noncesCollection)
+    .createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+}
+
+async function initTenantsCollection() {
+  await defaultDb.collection(tenantsCollection).createIndex({ database: 1 });
+}
+
+function validateWithZod<T>(schema: z.ZodSchema<T>, data: unknown): T {
+  const result = schema.safeParse(data);
+  if (!result.success) {
+    const errors = result.error.issues
+      .map((issue) => `${issue.path.join('.')}: ${issue.message}`)
+      .join(', ');
+    throw new HTTPException(400, { message: `Validation error: ${errors}` });
+  }
+  return result.data;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    Object.getPrototypeOf(value) === Object.prototype
+  );
+}
+
+type EJSONMode = 'canonical' | 'relaxed';
+
+// Clients opt into Extended JSON responses with the X-EJSON-Mode header,
+// without it responses are plain JSON (ObjectIds become strings, etc.)
+function getEJSONMode(c: Context): EJSONMode | null {
+  const mode = c.req.header('x-ejson-mode')?.toLowerCase();
+  if (!mode) {
+    return null;
+  }
+
+  if (mode !== 'canonical' && mode !== 'relaxed') {
+    throw new HTTPException(400, {
+      message: 'X-EJSON-Mode must be either "canonical" or "relaxed"',
+    });
+  }
+
+  return mode;
+}
+
+// Operators that run JavaScript on the server, denied in request bodies and
+// aggregation pipelines alike unless the defaults are overridden
+const javascriptOperators = ['$function', '$accumulator'];
+
+const queryDeniedOperators = (
+  process.env.QUERY_DENIED_OPERATORS ||
+  ['$where', ...javascriptOperators].join(',')
+)
+  .split(',')
+  .map((operator) => operator.trim())
+  .filter(Boolean);
+
+const queryMaxDepth = Number.parseInt(process.env.QUERY_MAX_DEPTH || '32', 10);
+
+const queryMaxInLength = Number.parseInt(
+  process.env.QUERY_MAX_IN_LENGTH || '1000',
+  10,
+);
+
+const queryMaxDocumentBytes = Number.parseInt(
+  process.env.QUERY_MAX_DOCUMENT_BYTES || '16777216',
+  10,
+);
+
+const listOperators = ['$in', '$nin', '$all'];
+
+// Walks a request body and returns the first problem found, naming its path.
+// The size limit applies to the outermost documents in the body, e.g. the
+// filter, the update or each of the inserted documents.
+function findQueryViolation(
+  value: unknown,
+  path: string,
+  depth = 0,
+  checkSize = false,
+): string | null {
+  if (depth > queryMaxDepth) {
+    return `Value is nested more than ${queryMaxDepth} levels deep (${path})`;
+  }
+
+  if (Array.isArray(value)) {
+    for (const [index, item] of value.entries()) {
+      const violation = findQueryViolation(
+        item,
+        path ? `${path}.${index}` : `${index}`,
+        depth + 1,
+        checkSize,
+      );
+      if (violation) {
+        return violation;
+      }
+    }
+    return null;
+  }
+
+  if (!isPlainObject(value)) {
+    return null;
+  }
+
+  if (checkSize && BSON.calculateObjectSize(value) > queryMaxDocumentBytes) {
+    return `Document is larger than ${queryMaxDocumentBytes} bytes (${path})`;
+  }
+
+  for (const [key, item] of Object.entries(value)) {
+    const itemPath = path ? `${path}.${key}` : key;
+    if (queryDeniedOperators.includes(key)) {
+      return `Operator ${key} is not allowed (${itemPath})`;
+    }
+    if (
+      listOperators.includes(key) &&
+      Array.isArray(item) &&
+      item.length > queryMaxInLength
+    ) {
+      return `${key} has more than ${queryMaxInLength} values (${itemPath})`;
+    }
+
+    const violation = findQueryViolation(
+      item,
+      itemPath,
+      depth + 1,
+      depth === 0,
+    );
+    if (violation) {
+      return violation;
+    }
+  }
+
+  return null;
+}
+
+// Request bodies are always decoded as Extended JSON so that filters,
+// updates and documents can contain ObjectIds, Dates, Decimal128s, etc.
+// Every one of them reaches the routes through here, so they are all checked
+// by findQueryViolation before anything else sees them.
+async function parseBody(c: Context): Promise<unknown> {
+  const text = await c.req.text();
+
+  let body: unknown;
+  try {
+    body = EJSON.parse(text, { relaxed: true });
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : 'unknown error';
+    throw new HTTPException(400, { message: `Invalid JSON body: ${reason}` });
+  }
+
+  const violation = findQueryViolation(body, '');
+  if (violation) {
+    throw new HTTPException(400, { message: violation });
+  }
+
+  return body;
+}
+
+// Policies apply to the documents in the response, not to the response itself
+function applyResponsePolicies(
+  body: Record<string, unknown>,
+  policies: CredentialPolicy[],
+) {
+  const hiddenFields = policies.flatMap((policy) => policy.hiddenFields);
+  const redactedFields = policies.flatMap((policy) => policy.redactedFields);
+  if (hiddenFields.length === 0 && redactedFields.length === 0) {
+    return body;
+  }
+
+  return Object.fromEntries(
+    Object.entries(body).map(([field, value]) => [
+      field,
+      applyFieldPolicies(value, hiddenFields, redactedFields),
+    ]),
+  );
+}
+
+function jsonResponse(c: Context<AppEnv>, body: Record<string, unknown>) {
+  const payload = applyResponsePolicies(
+    encryptionKeys.length > 0
+      ? (decryptValues(body, canDecrypt(c)) as Record<string, unknown>)
+      : body,
+    c.get('policies') ?? [],
+  );
+
+  const mode = getEJSONMode(c);
+  if (!mode) {
+    return c.json(payload);
+  }
+
+  return c.body(EJSON.stringify(payload, { relaxed: mode === 'relaxed' }), {
+    headers: { 'Content-Type': 'application/json; charset=UTF-8' },
+  });
+}
+
+app.get('/', async (c) => {
+  await defaultDb.stats();
+
+  return c.json({
+    data: {
+      message: 'MongoDB API is running',
+      version: 'v0',
+    },
+  });
+});
+
+const findMaxPageSize = Number.parseInt(
+  process.env.FIND_MAX_PAGE_SIZE || '1000',
+  10,
+);
+
+const aggregateMaxResults = Number.parseInt(
+  process.env.AGGREGATE_MAX_RESULTS || '1000',
+  10,
+);
+
+const queryDefaultMaxTimeMs = Number.parseInt(
+  process.env.QUERY_DEFAULT_MAX_TIME_MS || '5000',
+  10,
+);
+
+// Below the request timeout, so MongoDB gives up on a query before the
+// client is sent a 408
+const queryMaxTimeMs = Number.parseInt(
+  process.env.QUERY_MAX_TIME_MS || '9000',
+  10,
+);
+
+const collscanMinDocuments = Number.parseInt(
+  process.env.COLLSCAN_MIN_DOCUMENTS || '0',
+  10,
+);
+
+function withReadLimits(options: Document): Document {
+  const requested =
+    typeof options.maxTimeMS === 'number' && options.maxTimeMS > 0
+      ? options.maxTimeMS
+      : queryDefaultMaxTimeMs;
+  return { ...options, maxTimeMS: Math.min(requested, queryMaxTimeMs) };
+}
+
+// Values don't change how a query is planned, so queries that only differ
+// in their values share a shape, e.g. { age: { $gt: '?' } }, and are
+// explained once
+function getQueryShape(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    const shapes = value.map((item) => getQueryShape(item));
+    return [
+      ...new Map(
+        shapes.map((shape) => [JSON.stringify(shape), shape]),
+      ).values(),
+    ];
+  }
+  if (isPlainObject(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, getQueryShape(item)]),
+    );
+  }
+  return '?';
+}
+
+function usesCollectionScan(explain: unknown): boolean {
+  if (Array.isArray(explain)) {
+    return explain.some((item) => usesCollectionScan(item));
+  }
+  if (!isPlainObject(explain)) {
+    return false;
+  }
+  if (explain.stage === 'COLLSCAN') {
+    return true;
+  }
+  return Object.values(explain).some((item) => usesCollectionScan(item));
+}
+
+const queryPlanCacheMs = 60000;
+
+const queryPlanCacheSize = 1000;
+
+const queryPlanCache = new Map<
+  string,
+  { collectionScan: boolean; expiresAt: number }
+>();
+
+// Maps keep insertion order, so re-inserting on every write makes the first
+// key the least recently used one
+function setCacheEntry<T>(
+  cache: Map<string, T>,
+  key: string,
+  value: T,
+  maxSize: number,
+) {
+  cache.delete(key);
+  if (cache.size >= maxSize) {
+    const oldest = cache.keys().next().value;
+    if (oldest !== undefined) {
+      cache.delete(oldest);
+    }
+  }
+  cache.set(key, value);
+}
+
+// With COLLSCAN_MIN_DOCUMENTS set, queries on collections with at least that
+// many documents are explained first, and rejected if they'd read every
+// document. Plans are cached per shape for a minute, so new indexes are
+// picked up without a restart.
+async function assertNoCollectionScan(
+  db: Db,
+  collection: string,
+  query:
+    | { filter: Document; sort?: Sort | undefined }
+    | { pipeline: Document[] },
+) {
+  if (collscanMinDocuments <= 0) {
+    return;
+  }
+
+  // Sort field names and directions pick the plan as much as the filter
+  // does, so they're kept as they are rather than reduced to a shape
+  const key = fingerprintQuery({
+    database: db.databaseName,
+    collection,
+    shape:
+      'pipeline' in query
+        ? getQueryShape(query.pipeline)
+        : { filter: getQueryShape(query.filter), sort: query.sort ?? null },
+  });
+  let plan = queryPlanCache.get(key);
+  if (!plan || plan.expiresAt <= Date.now()) {
+    const target = db.collection(collection);
+    const large =
+      (await target.estimatedDocumentCount()) >= collscanMinDocuments;
+    const explain = !large
+      ? null
+      : 'pipeline' in query
+        ? await target.aggregate(query.pipeline).explain('queryPlanner')
+        : await target
+            .find(query.filter, query.sort ? { sort: query.sort } : {})
+            .explain('queryPlanner');
+
+    plan = {
+      collectionScan: explain !== null && usesCollectionScan(explain),
+      expiresAt: Date.now() + queryPlanCacheMs,
+    };
+    setCacheEntry(queryPlanCache, key, plan, queryPlanCacheSize);
+  }
+
+  if (plan.collectionScan) {
+    throw new HTTPException(400, {
+      message: `Query would scan every document in ${collection}, it needs an index`,
+    });
+  }
+}
+
+type ExplainSummary = {
+  planSummary: string;
+  stages: string[];
+  indexes: string[];
+  collectionScan: boolean;
+  rejectedPlans: number;
+  nReturned?: number;
+  keysExamined?: number;
+  docsExamined?: number;
+  executionTimeMillis?: number;
+};
+
+// Explain output is nested differently for find, aggregate and sharded
+// queries, so sections are looked up wherever they first appear
+function findExplainSection(
+  explain: unknown,
+  key: string,
+): Record<string, unknown> | undefined {
+  if (Array.isArray(explain)) {
+    for (const item of explain) {
+      const section = findExplainSection(item, key);
+      if (section) {
+        return section;
+      }
+    }
+    return undefined;
+  }
+  if (!isPlainObject(explain)) {
+    return undefined;
+  }
+  if (isPlainObject(explain[key])) {
+    return explain[key];
+  }
+  return findExplainSection(Object.values(explain), key);
+}
+
+function getPlanStages(plan: unknown): Record<string, unknown>[] {
+  if (!isPlainObject(plan)) {
+    return [];
+  }
+  // Plans run by the slot based engine are wrapped in queryPlan
+  if (isPlainObject(plan.queryPlan)) {
+    return getPlanStages(plan.queryPlan);
+  }
+  const children = [
+    plan.inputStage,
+    ...(Array.isArray(plan.inputStages) ? plan.inputStages : []),
+  ];
+  return [plan, ...children.flatMap((child) => getPlanStages(child))];
+}
+
+function formatPlanStage(stage: Record<string, unknown>): string {
+  if (!isPlainObject(stage.keyPattern)) {
+    return String(stage.stage);
+  }
+  const keys = Object.entries(stage.keyPattern)
+    .map(([field, direction]) => `${field}: ${direction}`)
+    .join(', ');
+  return `${stage.stage} { ${keys} }`;
+}
+
+function summarizeExplain(explain: Document): ExplainSummary {
+  const queryPlanner = findExplainSection(explain, 'queryPlanner');
+  const stages = getPlanStages(queryPlanner?.winningPlan);
+  const leaves = stages.filter(
+    (stage) =>
+      stage.inputStage === undefined && stage.inputStages === undefined,
+  );
+  const executionStats = findExplainSection(explain, 'executionStats');
+
+  return {
+    planSummary: [...new Set(leaves.map(formatPlanStage))].join(', '),
+    stages: stages.map((stage) => String(stage.stage)),
+    indexes: [
+      ...new Set(
+        stages.flatMap((stage) =>
+          typeof stage.indexName === 'string' ? [stage.indexName] : [],
+        ),
+      ),
+    ],
+    collectionScan: stages.some((stage) => stage.stage === 'COLLSCAN'),
+    rejectedPlans: Array.isArray(queryPlanner?.rejectedPlans)
+      ? queryPlanner.rejectedPlans.length
+      : 0,
+    ...(executionStats && {
+      nReturned: Number(executionStats.nReturned),
+      keysExamined: Number(executionStats.totalKeysExamined),
+      docsExamined: Number(executionStats.totalDocsExamined),
+      executionTimeMillis: Number(executionStats.executionTimeMillis),
+    }),
+  };
+}
+
+const slowQueryMs = Number.parseInt(process.env.SLOW_QUERY_MS || '0', 10);
+
+// The commands reads and writes are sent as, and where their query is
+const slowQueryCommands: Record<string, (command: Document) => unknown> = {
+  find: (command) => ({ filter: command.filter, sort: command.sort }),
+  count: (command) => ({ filter: command.query }),
+  aggregate: (command) => ({ pipeline: command.pipeline }),
+  update: (command) => ({ filter: command.updates?.[0]?.q }),
+  delete: (command) => ({ filter: command.deletes?.[0]?.q }),
+  findAndModify: (command) => ({ filter: command.query, sort: command.sort }),
+};
+
+// Session and transaction fields can't be sent along with explain
+const unexplainableCommandFields = [
+  'lsid',
+  'txnNumber',
+  'startTransaction',
+  'autocommit',
+  'readConcern',
+  'writeConcern',
+];
+
+const startedQueries = new Map<number, Document>();
+
+const slowQueryPlans = new Map<
+  string,
+  { summary: ExplainSummary | null; expiresAt: number }
+>();
+
+// Slow commands are explained again with executionStats to log how they
+// were run. That runs the query a second time, so each shape is explained
+// at most once a minute.
+async function explainSlowQuery(
+  database: string,
+  commandName: string,
+  command: Document,
+  shape: unknown,
+): Promise<ExplainSummary | null> {
+  const key = fingerprintQuery({ database, commandName, shape });
+  const cached = slowQueryPlans.get(key);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.summary;
+  }
+
+  const query = Object.fromEntries(
+    Object.entries(command).filter(
+      ([field]) =>
+        !field.startsWith('$') && !unexplainableCommandFields.includes(field),
+    ),
+  );
+  // Plans aren't logged for pipelines that write their output or for bulk
+  // writes, which explain doesn't support
+  const statements = command.updates ?? command.deletes;
+  const explainable =
+    !writesPipelineOutput(command.pipeline ?? []) &&
+    (!statements || statements.length === 1);
+
+  const summary = explainable
+    ? summarizeExplain(
+        await client.db(database).command({
+          explain: query,
+          verbosity: 'executionStats',
+          maxTimeMS: queryMaxTimeMs,
+        }),
+      )
+    : null;
+  setCacheEntry(
+    slowQueryPlans,
+    key,
+    { summary, expiresAt: Date.now() + queryPlanCacheMs },
+    queryPlanCacheSize,
+  );
+  return summary;
+}
+
+function watchSlowQueries(mongoClient: MongoClient) {
+  mongoClient.on('commandStarted', (event) => {
+    if (Object.hasOwn(slowQueryCommands, event.commandName)) {
+      startedQueries.set(event.requestId, event.command);
+    }
+  });
+
+  mongoClient.on('commandFailed', (event) => {
+    startedQueries.delete(event.requestId);
+  });
+
+  mongoClient.on('commandSucceeded', (event) => {
+    const command = startedQueries.get(event.requestId);
+    startedQueries.delete(event.requestId);
+    const getQuery = slowQueryCommands[event.commandName];
+    if (!command || !getQuery || event.duration < slowQueryMs) {
+      return;
+    }
+
+    const { commandName, databaseName, duration } = event;
+    const shape = getQueryShape(getQuery(command));
+    explainSlowQuery(databaseName, commandName, command, shape)
+      .catch((error) => {
+        errorLog('warn', 'Failed to explain slow query', error, {
+          database: databaseName,
+          command: commandName,
+        });
+        return null;
+      })
+      .then((summary) => {
+        structuredLog('warn', 'Slow query', {
+          database: databaseName,
+          collection: command[commandName],
+          command: commandName,
+          duration: `${Math.round(duration)}ms`,
+          shape,
+          ...(summary && {
+            planSummary: summary.planSummary,
+            keysExamined: summary.keysExamined,
+            docsExamined: summary.docsExamined,
+            nReturned: summary.nReturned,
+          }),
+        });
+      });
+  });
+}
+
+const FindSchema = z.object({
+  collection: z.string(),
+  filter: z.looseObject({}).default({}),
+  options: z
+    .looseObject({
+      limit: z.number().int().positive().optional(),
+    })
+    .default({}),
+  limit: z.number().int().positive().optional(),
+  cursor: z.string().optional(),
+  includeDeleted: z.boolean().default(false),
+});
+
+type SortSpec = Array<[string, 1 | -1]>;
+
+type FindCursor = {
+  query: string;
+  values: unknown[];
+};
+
+// Pages are ordered by the requested sort with _id as a tiebreaker, so every
+// document has a unique position that a cursor can resume after
+function getSortSpec(sort: Record<string, 1 | -1> = {}): SortSpec {
+  const spec: SortSpec = Object.entries(sort);
+  if (!spec.some(([field]) => field === '_id')) {
+    spec.push(['_id', spec.at(-1)?.[1] ?? 1]);
+  }
+  return spec;
+}
+
+const KeysetSortSchema = z
+  .record(z.string(), z.union([z.literal(1), z.literal(-1)]))
+  .optional();
+
+// Cursors compare sort values, so paging with cursor or limit needs a sort of
+// 1s and -1s. Other sorts, e.g. { score: { $meta: 'textScore' } }, are sent
+// as they are and come back as a single page.
+function getKeysetSort(sort: unknown, paging: boolean): SortSpec | null {
+  const result = KeysetSortSchema.safeParse(sort);
+  if (result.success) {
+    return getSortSpec(result.data);
+  }
+  if (paging) {
+    throw new HTTPException(400, {
+      message:
+        'Validation error: options.sort: cursor and limit need sort values of 1 or -1',
+    });
+  }
+  return null;
+}
+
+function getSortFields(sort: unknown): string[] {
+  if (typeof sort === 'string') {
+    return [sort];
+  }
+  if (Array.isArray(sort)) {
+    return sort.flatMap((item) =>
+      getSortFields(Array.isArray(item) ? item[0] : item),
+    );
+  }
+  return isPlainObject(sort) ? Object.keys(sort) : [];
+}
+
+function fingerprintQuery(query: Record<string, unknown>): string {
+  return createHash('sha256')
+    .update(EJSON.stringify(query, { relaxed: false }))
+    .digest('base64url');
+}
+
+function encodeCursor(cursor: FindCursor): string {
+  return Buffer.from(EJSON.stringify(cursor, { relaxed: false })).toString(
+    'base64url',
+  );
+}
+
+function decodeCursor(token: string): FindCursor {
+  try {
+    const cursor = EJSON.parse(Buffer.from(token, 'base64url').toString(), {
+      relaxed: false,
+    });
+    if (typeof cursor.query === 'string' && Array.isArray(cursor.values)) {
+      return cursor;
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new HTTPException(400, { message: 'Invalid cursor' });
+}
+
+function getPath(document: Document, path: string): unknown {
+  let value: unknown = document;
+  for (const key of path.split('.')) {
+    if (typeof value !== 'object' || value === null) {
+      return null;
+    }
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value ?? null;
+}
+
+// Arrays sort by their smallest or largest element, which $gt and $lt can't
+// resume from, so a page can't end on a document with an array sort value
+function getSortValue(document: Document, field: string): unknown {
+  let value: unknown = document;
+  for (const key of field.split('.')) {
+    if (Array.isArray(value)) {
+      break;
+    }
+    if (typeof value !== 'object' || value === null) {
+      return null;
+    }
+    value = (value as Record<string, unknown>)[key];
+  }
+
+  if (Array.isArray(value)) {
+    throw new HTTPException(400, {
+      message: `Sort field ${field} holds an array, results can't be paged on it`,
+    });
+  }
+  return value ?? null;
+}
+
+// Cursors are built from the last document's sort values, so a projection
+// can't leave them out. Missing ones are added to the projection and removed
+// from the documents again before they're returned.
+function withKeysetProjection(
+  projection: unknown,
+  keyset: SortSpec,
+): { projection: unknown; added: string[] } {
+  if (!isPlainObject(projection) || Object.keys(projection).length === 0) {
+    return { projection, added: [] };
+  }
+
+  const isExcluded = (value: unknown) => value === 0 || value === false;
+  const exclusion = Object.entries(projection).every(
+    ([field, value]) => field === '_id' || isExcluded(value),
+  );
+  const sortFields = keyset.map(([field]) => field);
+  const result: Document = { ...projection };
+  const added: string[] = [];
+
+  if (exclusion) {
+    for (const field of Object.keys(projection)) {
+      if (sortFields.some((sortField) => pathsOverlap(field, sortField))) {
+        delete result[field];
+        added.push(field);
+      }
+    }
+    return { projection: result, added };
+  }
+
+  for (const field of sortFields) {
+    if (field === '_id') {
+      if (isExcluded(projection._id)) {
+        delete result._id;
+        added.push('_id');
+      }
+      continue;
+    }
+
+    const fields = Object.keys(projection);
+    if (fields.some((key) => key === field || field.startsWith(`${key}.`))) {
+      continue;
+    }
+    if (fields.some((key) => key.startsWith(`${field}.`))) {
+      throw new HTTPException(400, {
+        message: `options.projection must include the sort field ${field} as a whole`,
+      });
+    }
+    result[field] = 1;
+    added.push(field);
+  }
+  return { projection: result, added };
+}
+
+function omitPath(value: unknown, path: string): unknown {
+  const [field = '', ...rest] = path.split('.');
+  if (!isPlainObject(value) || !(field in value)) {
+    return value;
+  }
+  if (rest.length > 0) {
+    return { ...value, [field]: omitPath(value[field], rest.join('.')) };
+  }
+  const { [field]: _omitted, ...others } = value;
+  return others;
+}
+
+// Matches documents that sort strictly after the given values, e.g. for
+// { a: 1, _id: 1 } this is { $or: [{ a: { $gt: a } }, { a, _id: { $gt: id } }] }.
+// Missing fields sort as null, below every other value, which $gt and $lt
+// don't match on their own.
+function buildKeysetFilter(
+  sort: SortSpec,
+  values: unknown[],
+): Filter<Document> {
+  if (values.some((value) => Array.isArray(value))) {
+    throw new HTTPException(400, { message: 'Invalid cursor' });
+  }
+
+  const clauses = sort.flatMap(([field, direction], index) => {
+    const clause: Document = {};
+    sort.slice(0, index).forEach(([previousField], previousIndex) => {
+      clause[previousField] = values[previousIndex];
+    });
+
+    const value = values[index];
+    if (value === null) {
+      // Nothing sorts below null, everything else sorts above it
+      if (direction === -1) {
+        return [];
+      }
+      clause[field] = { $ne: null };
+    } else if (direction === 1) {
+      clause[field] = { $gt: value };
+    } else {
+      clause.$or = [{ [field]: { $lt: value } }, { [field]: null }];
+    }
+    return [clause];
+  });
+
+  return clauses.length > 0 ? { $or: clauses } : { _id: { $in: [] } };
+}
+
+app.post('/v0/find', async (c) => {
+  const body = await parseBody(c);
+  const { collection, options, limit, cursor, ...rest } = validateWithZod(
+    FindSchema,
+    body,
+  );
+
+  authorize(c, 'read', [collection]);
+
+  const settings = await getAccessSettings(c, collection);
+  const filter = toManagedFilter(rest.filter, settings, rest.includeDeleted);
+  const keyset = getKeysetSort(
+    options.sort,
+    cursor !== undefined || limit !== undefined,
+  );
+  const sort = keyset ?? (options.sort as Sort | undefined);
+  assertPolicyFieldsNotQueried(
+    keyset ? keyset.map(([field]) => field) : getSortFields(options.sort),
+    settings.policy,
+  );
+  const pageSize = Math.min(
+    limit ?? options.limit ?? findMaxPageSize,
+    findMaxPageSize,
+  );
+  const query = fingerprintQuery({ collection, filter, sort: keyset });
+
+  await assertNoCollectionScan(c.get('db'), collection, { filter, sort });
+
+  let pageFilter: Filter<Document> = filter;
+  if (cursor && keyset) {
+    if (options.skip !== undefined) {
+      throw new HTTPException(400, {
+        message: 'cursor cannot be combined with options.skip',
+      });
+    }
+
+    const { query: cursorQuery, values } = decodeCursor(cursor);
+    if (cursorQuery !== query || values.length !== keyset.length) {
+      throw new HTTPException(400, {
+        message: 'Cursor does not match this collection, filter and sort',
+      });
+    }
+
+    pageFilter = { $and: [filter, buildKeysetFilter(keyset, values)] };
+  }
+
+  const { projection, added } = keyset
+    ? withKeysetProjection(options.projection, keyset)
+    : { projection: options.projection, added: [] };
+  const findOptions = withReadLimits({
+    ...options,
+    ...(projection !== undefined ? { projection } : {}),
+    sort,
+    limit: pageSize + 1,
+  });
+  const result = await cachedRead(
+    c,
+    collection,
+    { filter: normalizeFilter(pageFilter), options: findOptions },
+    () =>
+      c
+        .get('db')
+        .collection(collection)
+        .find(pageFilter, findOptions)
+        .toArray(),
+  );
+
+  const page = result.slice(0, pageSize);
+  const lastDocument = page.at(-1);
+  const nextCursor =
+    keyset && result.length > pageSize && lastDocument
+      ? encodeCursor({
+          query,
+          values: keyset.map(([field]) => getSortValue(lastDocument, field)),
+        })
+      : null;
+
+  return jsonResponse(c, {
+    data: page.map((document) =>
+      added.reduce<unknown>((value, path) => omitPath(value, path), document),
+    ),
+    count: page.length,
+    nextCursor,
+    // Sorts that can't be paged with a cursor are cut off at the page size
+    truncated: !keyset && result.length > pageSize,
+  });
+});
+
+const FindOneSchema = z.object({
+  collection: z.string(),
+  filter: z.any().default({}),
+  options: z.looseObject({}).default({}),
+  includeDeleted: z.boolean().default(false),
+});
+
+app.post('/v0/find-one', async (c) => {
+  const body = await parseBody(c);
+  const { collection, filter, options, includeDeleted } = validateWithZod(
+    FindOneSchema,
+    body,
+  );
+
+  authorize(c, 'read', [collection]);
+
+  const settings = await getAccessSettings(c, collection);
+  const managedFilter = toManagedFilter(filter, settings, includeDeleted);
+
+  await assertNoCollectionScan(c.get('db'), collection, {
+    filter: managedFilter,
+  });
+
+  const result = await cachedRead(
+    c,
+    collection,
+    { filter: normalizeFilter(managedFilter), options },
+    () =>
+      c
+        .get('db')
+        .collection(collection)
+        .findOne(managedFilter, withReadLimits(options)),
+  );
+
+  if (settings.versioning && result) {
+    c.header('ETag', getVersionETag(result));
+  }
+
+  return jsonResponse(c, {
+    data: result,
+  });
+});
+
+const InsertOneSchema = z
+  .object({
+    collection: z.string(),
+    document: z.looseObject({}),
+    options: z.looseObject({}).default({}),
+  })
+  .strict();
+
+app.post('/v0/insert-one', async (c) => {
+  const body = await parseBody(c);
+  const { collection, document, options } = validateWithZod(
+    InsertOneSchema,
+    body,
+  );
+
+  authorize(c, 'write', [collection]);
+
+  const settings = await getAccessSettings(c, collection);
+
+  const result = await c
+    .get('db')
+    .collection(collection)
+    .insertOne(toManagedDocument(document, settings), options);
+
+  const insertedDocument = await c
+    .get('db')
+    .collection(collection)
+    .findOne({ _id: result.insertedId });
+
+  await writeAuditLog(c, [
+    await getAuditChange(
+      c.get('db'),
+      { operation: 'insertOne', collection, documentIds: [result.insertedId] },
+      [],
+    ),
+  ]);
+
+  return jsonResponse(c, {
+    data: insertedDocument,
+  });
+});
+
+const InsertManySchema = z.object({
+  collection: z.string(),
+  documents: z.array(z.looseObject({})),
+  options: z.looseObject({}).default({}),
+});
+
+app.post('/v0/insert-many', async (c) => {
+  const body = await parseBody(c);
+  const { collection, documents, options } = validateWithZod(
+    InsertManySchema,
+    body,
+  );
+
+  authorize(c, 'write', [collection]);
+
+  const settings = await getAccessSettings(c, collection);
+
+  const result = await c
+    .get('db')
+    .collection(collection)
+    .insertMany(
+      documents.map((document) => toManagedDocument(document, settings)),
+      options,
+    );
+
+  const insertedIds = Object.values(result.insertedIds);
+  const insertedDocuments = await c
+    .get('db')
+    .collection(collection)
+    .find({ _id: { $in: insertedIds } })
+    .toArray();
+
+  await writeAuditLog(c, [
+    await getAuditChange(
+      c.get('db'),
+      { operation: 'insertMany', collection, documentIds: insertedIds },
+      [],
+    ),
+  ]);
+
+  return jsonResponse(c, {
+    data: insertedDocuments,
+    count: result.insertedCount,
+  });
+});
+
+const UpdateOneSchema = z.object({
+  collection: z.string(),
+  filter: z.looseObject({}),
+  update: z.looseObject({}),
+  options: z.looseObject({}).default({}),
+  expectedVersion: z.number().int().nonnegative().optional(),
+  includeDeleted: z.boolean().default(false),
+});
+
+app.post('/v0/update-one', async (c) => {
+  const body = await parseBody(c);
+  const {
+    collection,
+    filter,
+    update,
+    options,
+    expectedVersion: bodyVersion,
+    includeDeleted,
+  } = validateWithZod(UpdateOneSchema, body);
+
+  authorize(c, 'write', [collection]);
+
+  const settings = await getAccessSettings(c, collection);
+  const expectedVersion = getExpectedVersion(c, settings, bodyVersion);
+  const visibleFilter = toManagedFilter(filter, settings, includeDeleted);
+  const updateFilter =
+    expectedVersion === undefined
+      ? visibleFilter
+      : withExpectedVersion(visibleFilter, expectedVersion);
+
+  const targets = await findAuditTargets(
+    c.get('db'),
+    collection,
+    updateFilter,
+    {
+      limit: 1,
+    },
+  );
+  const result = await c
+    .get('db')
+    .collection(collection)
+    .findOneAndUpdate(updateFilter, toManagedUpdate(update, settings), {
+      ...options,
+      returnDocument: 'after',
+    });
+
+  if (
+    !result &&
+    expectedVersion !== undefined &&
+    (await isVersionMismatch(c.get('db'), collection, visibleFilter))
+  ) {
+    throw new HTTPException(412, {
+      message: 'Document version does not match',
+    });
+  }
+  if (settings.versioning && result) {
+    c.header('ETag', getVersionETag(result));
+  }
+
+  await writeAuditLog(c, [
+    await getAuditChange(
+      c.get('db'),
+      {
+        operation: 'updateOne',
+        collection,
+        filter,
+        update,
+        documentIds: result ? [result._id] : [],
+      },
+      targets,
+    ),
+  ]);
+
+  return jsonResponse(c, {
+    data: result,
+  });
+});
+
+const UpdateManySchema = z.object({
+  collection: z.string(),
+  filter: z.looseObject({}),
+  update: z.looseObject({}),
+  options: z.looseObject({}).default({}),
+  includeDeleted: z.boolean().default(false),
+});
+
+app.post('/v0/update-many', async (c) => {
+  const body = await parseBody(c);
+  const { collection, update, options, ...rest } = validateWithZod(
+    UpdateManySchema,
+    body,
+  );
+
+  authorize(c, 'write', [collection]);
+
+  const settings = await getAccessSettings(c, collection);
+  const filter = toManagedFilter(rest.filter, settings, rest.includeDeleted);
+
+  const documentsToUpdate = await c
+    .get('db')
+    .collection(collection)
+    .find(filter)
+    .toArray();
+  const idsToUpdate = documentsToUpdate.map((doc) => doc._id);
+
+  const updateResult = await c
+    .get('db')
+    .collection(collection)
+    .updateMany(filter, toManagedUpdate(update, settings), options);
+
+  const updatedDocuments = await c
+    .get('db')
+    .collection(collection)
+    .find({ _id: { $in: idsToUpdate } })
+    .toArray();
+
+  await writeAuditLog(c, [
+    await getAuditChange(
+      c.get('db'),
+      {
+        operation: 'updateMany',
+        collection,
+        filter: rest.filter,
+        update,
+        documentIds: updateResult.upsertedId
+          ? [...idsToUpdate, updateResult.upsertedId]
+          : idsToUpdate,
+      },
+      documentsToUpdate,
+    ),
+  ]);
+
+  return jsonResponse(c, {
+    data: updatedDocuments,
+    modifiedCount: updateResult.modifiedCount,
+  });
+});
+
+const DeleteOneSchema = z.object({
+  collection: z.string(),
+  filter: z.looseObject({}),
+  options: z.looseObject({}).default({}),
+  expectedVersion: z.number().int().nonnegative().optional(),
+});
+
+app.post('/v0/delete-one', async (c) => {
+  const body = await parseBody(c);
+  const {
+    collection,
+    filter,
+    options,
+    expectedVersion: bodyVersion,
+  } = validateWithZod(DeleteOneSchema, body);
+
+  authorize(c, 'delete', [collection]);
+
+  const settings = await getAccessSettings(c, collection);
+  const expectedVersion = getExpectedVersion(c, settings, bodyVersion);
+  const visibleFilter = toManagedFilter(filter, settings);
+  const deleteFilter =
+    expectedVersion === undefined
+      ? visibleFilter
+      : withExpectedVersion(visibleFilter, expectedVersion);
+
+  const targets = await findAuditTargets(
+    c.get('db'),
+    collection,
+    deleteFilter,
+    {
+      limit: 1,
+    },
+  );
+  const deletedCount = settings.softDelete
+    ? (
+        await c
+          .get('db')
+          .collection(collection)
+          .updateOne(deleteFilter, getSoftDeleteUpdate(settings), options)
+      ).modifiedCount
+    : (
+        await c
+          .get('db')
+          .collection(collection)
+          .deleteOne(deleteFilter, options)
+      ).deletedCount;
+
+  if (
+    deletedCount === 0 &&
+    expectedVersion !== undefined &&
+    (await isVersionMismatch(c.get('db'), collection, visibleFilter))
+  ) {
+    throw new HTTPException(412, {
+      message: 'Document version does not match',
+    });
+  }
+
+  await writeAuditLog(c, [
+    await getAuditChange(
+      c.get('db'),
+      {
+        operation: 'deleteOne',
+        collection,
+        filter,
+        documentIds:
+          deletedCount > 0 ? targets.map((target) => target._id) : [],
+      },
+      targets,
+    ),
+  ]);
+
+  return jsonResponse(c, {
+    deletedCount,
+  });
+});
+
+const DeleteManySchema = z.object({
+  collection: z.string(),
+  filter: z.looseObject({}),
+  options: z.looseObject({}).default({}),
+});
+
+app.post('/v0/delete-many', async (c) => {
+  const body = await parseBody(c);
+  const { collection, filter, options } = validateWithZod(
+    DeleteManySchema,
+    body,
+  );
+
+  authorize(c, 'delete', [collection]);
+
+  const settings = await getAccessSettings(c, collection);
+  const deleteFilter = toManagedFilter(filter, settings);
+
+  const targets = await findAuditTargets(c.get('db'), collection, deleteFilter);
+  const deletedCount = settings.softDelete
+    ? (
+        await c
+          .get('db')
+          .collection(collection)
+          .updateMany(deleteFilter, getSoftDeleteUpdate(settings), options)
+      ).modifiedCount
+    : (
+        await c
+          .get('db')
+          .collection(collection)
+          .deleteMany(deleteFilter, options)
+      ).deletedCount;
+
+  await writeAuditLog(c, [
+    await getAuditChange(
+      c.get('db'),
+      {
+        operation: 'deleteMany',
+        collection,
+        filter,
+        documentIds: targets.map((target) => target._id),
+      },
+      targets,
+    ),
+  ]);
+
+  return jsonResponse(c, {
+    deletedCount,
+  });
+});
+
+const RestoreSchema = z.object({
+  collection: z.string(),
+  filter: z.looseObject({}),
+});
+
+app.post('/v0/restore', async (c) => {
+  const body = await parseBody(c);
+  const { collection, filter } = validateWithZod(RestoreSchema, body);
+
+  authorize(c, 'write', [collection]);
+
+  const settings = await getAccessSettings(c, collection);
+  const deletedFilter = onlyDeleted(toManagedFilter(filter, settings, true));
+  const update = { $unset: { [deletedField]: '' } };
+
+  const targets = await findAuditTargets(
+    c.get('db'),
+    collection,
+    deletedFilter,
+  );
+  const result = await c
+    .get('db')
+    .collection(collection)
+    .updateMany(deletedFilter, toManagedUpdate(update, settings));
+
+  await writeAuditLog(c, [
+    await getAuditChange(
+      c.get('db'),
+      {
+        operation: 'restore',
+        collection,
+        filter,
+        update,
+        documentIds: targets.map((target) => target._id),
+      },
+      targets,
+    ),
+  ]);
+
+  return jsonResponse(c, {
+    restoredCount: result.modifiedCount,
+  });
+});
+
+const PurgeSchema = z.object({
+  collection: z.string(),
+  filter: z.looseObject({}),
+});
+
+// Permanently removes soft deleted documents, documents that haven't been
+// deleted are never touched
+app.post('/v0/purge', async (c) => {
+  const body = await parseBody(c);
+  const { collection, filter } = validateWithZod(PurgeSchema, body);
+
+  authorize(c, 'delete', [collection]);
+
+  const settings = await getAccessSettings(c, collection);
+  const deletedFilter = onlyDeleted(toManagedFilter(filter, settings, true));
+
+  const targets = await findAuditTargets(
+    c.get('db'),
+    collection,
+    deletedFilter,
+  );
+  const result = await c
+    .get('db')
+    .collection(collection)
+    .deleteMany(deletedFilter);
+
+  await writeAuditLog(c, [
+    await getAuditChange(
+      c.get('db'),
+      {
+        operation: 'purge',
+        collection,
+        filter,
+        documentIds: targets.map((target) => target._id),
+      },
+      targets,
+    ),
+  ]);
+
+  requestLog(c, 'info', 'Purged deleted documents', {
+    collection,
+    purgedCount: result.deletedCount,
+  });
+
+  return jsonResponse(c, {
+    purgedCount: result.deletedCount,
+  });
+});
+
+const CountSchema = z.object({
+  collection: z.string(),
   filter: z.looseObject({}).default({}),
   options: z.looseObject({}).default({}),
+  includeDeleted: z.boolean().default(false),
+});
+
+app.post('/v0/count', async (c) => {
+  const body = await parseBody(c);
+  const { collection, filter, options, includeDeleted } = validateWithZod(
+    CountSchema,
+    body,
+  );
+
+  authorize(c, 'read', [collection]);
+
+  const settings = await getAccessSettings(c, collection);
+  const managedFilter = toManagedFilter(filter, settings, includeDeleted);
+
+  await assertNoCollectionScan(c.get('db'), collection, {
+    filter: managedFilter,
+  });
+
+  const count = await cachedRead(
+    c,
+    collection,
+    { filter: normalizeFilter(managedFilter), options },
+    () =>
+      c
+        .get('db')
+        .collection(collection)
+        .countDocuments(managedFilter, withReadLimits(options)),
+  );
+
+  return jsonResponse(c, {
+    count,
+  });
+});
+
+const BulkWriteOperationSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('insertOne'),
+    document: z.looseObject({}),
+  }),
+  z.object({
+    type: z.enum(['updateOne', 'updateMany']),
+    filter: z.looseObject({}),
+    update: z.looseObject({}),
+    options: z.looseObject({}).default({}),
+  }),
+  z.object({
+    type: z.literal('replaceOne'),
+    filter: z.looseObject({}),
+    replacement: z.looseObject({}),
+    options: z.looseObject({}).default({}),
+  }),
+  z.object({
+    type: z.enum(['deleteOne', 'deleteMany']),
+    filter: z.looseObject({}),
+    options: z.looseObject({}).default({}),
+  }),
+]);
+
+type BulkWriteOperation = z.infer<typeof BulkWriteOperationSchema>;
+
+const bulkWriteOperationScopes: Record<BulkWriteOperation['type'], Operation> =
+  {
+    insertOne: 'write',
+    updateOne: 'write',
+    updateMany: 'write',
+    replaceOne: 'write',
+    deleteOne: 'delete',
+    deleteMany: 'delete',
+  };
+
+function getBulkWriteFilter(
+  operation: BulkWriteOperation,
+  settings: AccessSettings,
+  includeDeleted: boolean,
+): Document {
+  if (!('filter' in operation)) {
+    return {};
+  }
+
+  // Deletes never match already deleted documents
+  return toManagedFilter(
+    operation.filter,
+    settings,
+    includeDeleted && !operation.type.startsWith('delete'),
+  );
+}
+
+function toBulkWriteModel(
+  operation: BulkWriteOperation,
+  settings: AccessSettings,
+  includeDeleted: boolean,
+): AnyBulkWriteOperation {
+  const filter = getBulkWriteFilter(operation, settings, includeDeleted);
+
+  switch (operation.type) {
+    case 'insertOne': {
+      const { document } = operation;
+      return {
+        insertOne: {
+          document: toManagedDocument(document, settings),
+        },
+      };
+    }
+    case 'updateOne': {
+      const { update, options } = operation;
+      return {
+        updateOne: {
+          ...options,
+          filter,
+          update: toManagedUpdate(update, settings),
+        },
+      };
+    }
+    case 'updateMany': {
+      const { update, options } = operation;
+      return {
+        updateMany: {
+          ...options,
+          filter,
+          update: toManagedUpdate(update, settings),
+        },
+      };
+    }
+    case 'replaceOne': {
+      const { options } = operation;
+      const replacement = toManagedReplacement(operation.replacement, settings);
+      if (Array.isArray(replacement)) {
+        return { updateOne: { ...options, filter, update: replacement } };
+      }
+      return { replaceOne: { ...options, filter, replacement } };
+    }
+    case 'deleteOne': {
+      const { options } = operation;
+      if (settings.softDelete) {
+        return {
+          updateOne: {
+            ...options,
+            filter,
+            update: getSoftDeleteUpdate(settings),
+          },
+        };
+      }
+      return { deleteOne: { ...options, filter } };
+    }
+    case 'deleteMany': {
+      const { options } = operation;
+      if (settings.softDelete) {
+        return {
+          updateMany: {
+            ...options,
+            filter,
+            update: getSoftDeleteUpdate(settings),
+          },
+        };
+      }
+      return { deleteMany: { ...options, filter } };
+    }
+  }
+}
+
+const BulkWriteSchema = z.object({
+  collection: z.string(),
+  operations: z.array(BulkWriteOperationSchema),
+  ordered: z.boolean().default(true),
+  includeDeleted: z.boolean().default(false),
+});
+
+// Write errors don't fail the request, they're reported per operation. In
+// ordered mode the operations after the first failure are never attempted.
+app.post('/v0/bulk-write', async (c) => {
+  const body = await parseBody(c);
+  const { collection, operations, ordered, includeDeleted } = validateWithZod(
+    BulkWriteSchema,
+    body,
+  );
+
+  if (operations.length === 0) {
+    throw new HTTPException(400, {
+      message: 'At least one operation is required',
+    });
+  }
+
+  for (const operation of operations) {
+    authorize(c, bulkWriteOperationScopes[operation.type], [collection]);
+  }
+
+  const settings = await getAccessSettings(c, collection);
+  const models = operations.map((operation) =>
+    toBulkWriteModel(operation, settings, includeDeleted),
+  );
+
+  const targets: Document[][] = [];
+  for (const operation of operations) {
+    targets.push(
+      operation.type === 'insertOne'
+        ? []
+        : await findAuditTargets(
+            c.get('db'),
+            collection,
+            getBulkWriteFilter(operation, settings, includeDeleted),
+            operation.type.endsWith('Many') ? {} : { limit: 1 },
+          ),
+    );
+  }
+
+  let result: BulkWriteResult;
+  let writeErrors: WriteError[] = [];
+  try {
+    result = await c
+      .get('db')
+      .collection(collection)
+      .bulkWrite(models, { ordered });
+  } catch (error) {
+    if (!(error instanceof MongoBulkWriteError)) {
+      throw error;
+    }
+    writeErrors = [error.writeErrors].flat();
+    if (writeErrors.length === 0) {
+      throw error;
+    }
+    result = error.result;
+  }
+
+  const failedIndexes = new Set(writeErrors.map((error) => error.index));
+  const firstFailedIndex = ordered
+    ? Math.min(...failedIndexes)
+    : Number.POSITIVE_INFINITY;
+
+  const results = operations.map((operation, index) => {
+    if (failedIndexes.has(index)) {
+      return { index, type: operation.type, status: 'failed' };
+    }
+    if (index > firstFailedIndex) {
+      return { index, type: operation.type, status: 'skipped' };
+    }
+
+    return {
+      index,
+      type: operation.type,
+      status: 'ok',
+      ...(operation.type === 'insertOne'
+        ? { insertedId: result.insertedIds[index] }
+        : {}),
+      ...(index in result.upsertedIds
+        ? { upsertedId: result.upsertedIds[index] }
+        : {}),
+    };
+  });
+
+  const auditChanges: AuditChange[] = [];
+  for (const [index, operation] of operations.entries()) {
+    if (results[index]?.status !== 'ok') {
+      continue;
+    }
+
+    const operationTargets = targets[index] ?? [];
+    const documentIds =
+      operation.type === 'insertOne'
+        ? [result.insertedIds[index]]
+        : [
+            ...operationTargets.map((target) => target._id),
+            ...(index in result.upsertedIds ? [result.upsertedIds[index]] : []),
+          ];
+
+    auditChanges.push(
+      await getAuditChange(
+        c.get('db'),
+        {
+          operation: operation.type,
+          collection,
+          ...('filter' in operation ? { filter: operation.filter } : {}),
+          ...('update' in operation ? { update: operation.update } : {}),
+          ...('replacement' in operation
+            ? { replacement: operation.replacement }
+            : {}),
+          documentIds,
+        },
+        operationTargets,
+      ),
+    );
+  }
+  await writeAuditLog(c, auditChanges);
+
+  return jsonResponse(c, {
+    data: {
+      insertedCount: result.insertedCount,
+      matchedCount: result.matchedCount,
+      modifiedCount: result.modifiedCount,
+      deletedCount: result.deletedCount,
+      upsertedCount: result.upsertedCount,
+      results,
+      writeErrors: writeErrors.map((error) => ({
+        index: error.index,
+        code: error.code,
+        message: error.errmsg,
+        ...(error.code === 121
+          ? {
+              violations: collectSchemaViolations(
+                error.errInfo?.details?.schemaRulesNotSatisfied,
+                [],
+              ),
+            }
+          : {}),
+      })),
+    },
+  });
+});
+
+const deniedAggregationStages = (
+  process.env.AGGREGATE_DENIED_STAGES ||
+  ['$out', '$merge', ...javascriptOperators].join(',')
+)
+  .split(',')
+  .map((stage) => stage.trim())
+  .filter(Boolean);
+
+// Walks the whole pipeline, nested $lookup/$facet/$unionWith pipelines
+// included, and returns the path of the first denied stage or operator
+function findDeniedStage(
+  value: unknown,
+  denied: string[],
+  path: string,
+): { stage: string; path: string } | null {
+  if (Array.isArray(value)) {
+    for (const [index, item] of value.entries()) {
+      const match = findDeniedStage(item, denied, `${path}.${index}`);
+      if (match) {
+        return match;
+      }
+    }
+    return null;
+  }
+
+  if (!isPlainObject(value)) {
+    return null;
+  }
+
+  for (const [key, item] of Object.entries(value)) {
+    if (denied.includes(key)) {
+      return { stage: key, path: `${path}.${key}` };
+    }
+
+    const match = findDeniedStage(item, denied, `${path}.${key}`);
+    if (match) {
+      return match;
+    }
+  }
+
+  return null;
+}
+
+// Collections read by $lookup, $graphLookup and $unionWith stages need the
+// same read access as the collection the pipeline runs on
+function getPipelineCollections(value: unknown): string[] {
+  if (Array.isArray(value)) {
+    return value.flatMap((item) => getPipelineCollections(item));
+  }
+
+  if (!isPlainObject(value)) {
+    return [];
+  }
+
+  return Object.entries(value).flatMap(([key, item]) => {
+    const collections = getPipelineCollections(item);
+
+    if ((key === '$lookup' || key === '$graphLookup') && isPlainObject(item)) {
+      if (typeof item.from === 'string') {
+        collections.push(item.from);
+      }
+    }
+
+    if (key === '$unionWith') {
+      if (typeof item === 'string') {
+        collections.push(item);
+      } else if (isPlainObject(item) && typeof item.coll === 'string') {
+        collections.push(item.coll);
+      }
+    }
+
+    return collections;
+  });
+}
+
+const AggregateSchema = z.object({
+  collection: z.string(),
+  pipeline: z.array(z.looseObject({})),
+  options: z.looseObject({}).default({}),
+});
+
+function writesPipelineOutput(pipeline: Document[]): boolean {
+  const [lastStage] = Object.keys(pipeline.at(-1) ?? {});
+  return lastStage === '$out' || lastStage === '$merge';
+}
+
+// Rejects denied stages, authorizes every collection the pipeline reads and
+// puts the credential's policy filter in front of it
+function getManagedPipeline(
+  c: Context<AppEnv>,
+  collection: string,
+  pipeline: Document[],
+): Document[] {
+  const denied = findDeniedStage(pipeline, deniedAggregationStages, 'pipeline');
+  if (denied) {
+    throw new HTTPException(400, {
+      message: `Aggregation stage ${denied.stage} is not allowed (${denied.path})`,
+    });
+  }
+
+  const pipelineCollections = getPipelineCollections(pipeline);
+  authorize(c, 'read', [collection, ...pipelineCollections]);
+
+  // Stages can copy fields under new names, so field policies can't be
+  // enforced on pipelines, and only the first $match can enforce a filter
+  const policy = getCollectionPolicy(c, collection);
+  const restricted = [
+    ...(policy && getPolicyFields(policy).length > 0 ? [collection] : []),
+    ...pipelineCollections.filter((name) => getCollectionPolicy(c, name)),
+  ];
+  if (restricted[0] !== undefined) {
+    throw new HTTPException(403, {
+      message: `Credential policy for collection ${restricted[0]} doesn't allow aggregations`,
+    });
+  }
+
+  return policy?.filter ? [{ $match: policy.filter }, ...pipeline] : pipeline;
+}
+
+app.post('/v0/aggregate', async (c) => {
+  const body = await parseBody(c);
+  const { collection, pipeline, options } = validateWithZod(
+    AggregateSchema,
+    body,
+  );
+
+  const managedPipeline = getManagedPipeline(c, collection, pipeline);
+
+  await assertNoCollectionScan(c.get('db'), collection, {
+    pipeline: managedPipeline,
+  });
+
+  // One more than the cap is read to tell whether the results were cut off.
+  // $out and $merge have to stay last and return nothing anyway.
+  const result = await c
+    .get('db')
+    .collection(collection)
+    .aggregate(
+      writesPipelineOutput(managedPipeline)
+        ? managedPipeline
+        : [...managedPipeline, { $limit: aggregateMaxResults + 1 }],
+      withReadLimits(options),
+    )
+    .toArray();
+  const data = result.slice(0, aggregateMaxResults);
+
+  return jsonResponse(c, {
+    data,
+    count: data.length,
+    truncated: result.length > aggregateMaxResults,
+  });
+});
+
+const ExplainBaseSchema = z.object({
+  collection: z.string(),
+  verbosity: z
+    .enum(['queryPlanner', 'executionStats'])
+    .default('executionStats'),
+});
+
+const ExplainSchema = z.discriminatedUnion('operation', [
+  ExplainBaseSchema.extend({
+    operation: z.literal('find'),
+    filter: z.looseObject({}).default({}),
+    options: FindSchema.shape.options,
+    includeDeleted: z.boolean().default(false),
+  }),
+  ExplainBaseSchema.extend({
+    operation: z.literal('count'),
+    filter: z.looseObject({}).default({}),
+    includeDeleted: z.boolean().default(false),
+  }),
+  ExplainBaseSchema.extend({
+    operation: z.literal('aggregate'),
+    pipeline: z.array(z.looseObject({})),
+  }),
+  ExplainBaseSchema.extend({
+    operation: z.literal('update'),
+    filter: z.looseObject({}).default({}),
+  }),
+]);
+
+type ExplainQuery = z.infer<typeof ExplainSchema>;
+
+// Builds the command the matching route would send, with its managed filter
+async function getExplainCommand(
+  c: Context<AppEnv>,
+  query: Exclude<ExplainQuery, { operation: 'aggregate' }>,
+): Promise<Document> {
+  const { collection } = query;
+  authorize(c, 'read', [collection]);
+
+  const settings = await getAccessSettings(c, collection);
+  const filter = toManagedFilter(
+    query.filter,
+    settings,
+    query.operation !== 'update' && query.includeDeleted,
+  );
+
+  switch (query.operation) {
+    case 'find': {
+      const keyset = getKeysetSort(query.options.sort, false);
+      assertPolicyFieldsNotQueried(
+        keyset
+          ? keyset.map(([field]) => field)
+          : getSortFields(query.options.sort),
+        settings.policy,
+      );
+      const pageSize = Math.min(
+        query.options.limit ?? findMaxPageSize,
+        findMaxPageSize,
+      );
+      return {
+        find: collection,
+        filter,
+        sort: keyset ? Object.fromEntries(keyset) : query.options.sort,
+        limit: pageSize + 1,
+      };
+    }
+    // countDocuments runs as this pipeline
+    case 'count':
+      return {
+        aggregate: collection,
+        pipeline: [{ $match: filter }, { $group: { _id: 1, n: { $sum: 1 } } }],
+        cursor: {},
+      };
+    case 'update':
+      return {
+        update: collection,
+        updates: [{ q: filter, u: { $set: {} }, multi: true }],
+      };
+  }
+}
+
+app.post('/v0/explain', async (c) => {
+  const body = await parseBody(c);
+  const query = validateWithZod(ExplainSchema, body);
+  const { collection, operation, verbosity } = query;
+
+  const command =
+    query.operation === 'aggregate'
+      ? {
+          aggregate: collection,
+          pipeline: getManagedPipeline(c, collection, query.pipeline),
+          cursor: {},
+        }
+      : await getExplainCommand(c, query);
+
+  const explain = await c
+    .get('db')
+    .command({ explain: command, verbosity, ...withReadLimits({}) });
+
+  return jsonResponse(c, {
+    collection,
+    operation,
+    ...summarizeExplain(explain),
+  });
+});
+
+async function collectionExists(db: Db, collection: string) {
+  return db.listCollections({ name: collection }, { nameOnly: true }).hasNext();
+}
+
+async function assertCollectionExists(db: Db, collection: string) {
+  if (!(await collectionExists(db, collection))) {
+    throw new HTTPException(404, {
+      message: `Collection ${collection} does not exist`,
+    });
+  }
+}
+
+const ListCollectionsSchema = z.object({
+  details: z.enum(['true', 'false']).default('false'),
+});
+
+app.get('/v0/collections', async (c) => {
+  const { details } = validateWithZod(ListCollectionsSchema, c.req.query());
+
+  authorize(c, 'read');
+  assertNotSharedTenant(c, 'list collections');
+
+  const credential = c.get('credential');
+  const collections = (await c.get('db').listCollections().toArray()).filter(
+    (col) => canAccessCollection(credential, col.name),
+  );
+
+  if (details === 'true') {
+    return jsonResponse(c, {
+      data: collections.map((col) => ({
+        name: col.name,
+        type: col.type,
+        options: 'options' in col ? col.options : {},
+      })),
+    });
+  }
+
+  return jsonResponse(c, {
+    data: collections.map((col) => col.name),
+  });
+});
+
+const CreateCollectionSchema = z.object({
+  collection: z.string(),
+  options: z.looseObject({}).default({}),
+});
+
+app.post('/v0/create-collection', async (c) => {
+  const body = await parseBody(c);
+  const { collection, options } = validateWithZod(CreateCollectionSchema, body);
+
+  authorize(c, 'collection', [collection]);
+
+  await c.get('db').createCollection(collection, options);
+
+  const [info] = await c
+    .get('db')
+    .listCollections({ name: collection })
+    .toArray();
+
+  return jsonResponse(c, {
+    data: info,
+  });
+});
+
+const DropCollectionSchema = z.object({
+  collection: z.string(),
+  confirm: z.string(),
+});
+
+// Dropping needs its own scope and the collection name repeated in `confirm`,
+// so a typo or a copy-pasted request can't take out the wrong collection
+app.post('/v0/drop-collection', async (c) => {
+  const body = await parseBody(c);
+  const { collection, confirm } = validateWithZod(DropCollectionSchema, body);
+
+  authorize(c, 'drop', [collection]);
+
+  if (confirm !== collection) {
+    throw new HTTPException(400, {
+      message: 'confirm must match the name of the collection being dropped',
+    });
+  }
+
+  await assertCollectionExists(c.get('db'), collection);
+  await c.get('db').dropCollection(collection);
+  await moveCollectionSettings(c.get('db'), collection, null);
+
+  requestLog(c, 'warn', 'Dropped collection', { collection });
+
+  return jsonResponse(c, {
+    data: { dropped: collection },
+  });
+});
+
+const RenameCollectionSchema = z.object({
+  collection: z.string(),
+  to: z.string(),
+  dropTarget: z.boolean().default(false),
+});
+
+app.post('/v0/rename-collection', async (c) => {
+  const body = await parseBody(c);
+  const { collection, to, dropTarget } = validateWithZod(
+    RenameCollectionSchema,
+    body,
+  );
+
+  authorize(c, 'collection', [collection, to]);
+  if (dropTarget) {
+    authorize(c, 'drop', [to]);
+  }
+
+  await assertCollectionExists(c.get('db'), collection);
+  await c.get('db').renameCollection(collection, to, { dropTarget });
+  await moveCollectionSettings(c.get('db'), collection, to);
+
+  return jsonResponse(c, {
+    data: { from: collection, to },
+  });
+});
+
+const CollectionOptionsSchema = z.object({
+  collection: z.string(),
+  options: z.looseObject({}),
+});
+
+app.post('/v0/collection-options', async (c) => {
+  const body = await parseBody(c);
+  const { collection, options } = validateWithZod(
+    CollectionOptionsSchema,
+    body,
+  );
+
+  authorize(c, 'collection', [collection]);
+
+  if ('collMod' in options) {
+    throw new HTTPException(400, {
+      message: 'options cannot contain collMod',
+    });
+  }
+
+  await assertCollectionExists(c.get('db'), collection);
+  await c.get('db').command({ collMod: collection, ...options });
+
+  const [info] = await c
+    .get('db')
+    .listCollections({ name: collection })
+    .toArray();
+
+  return jsonResponse(c, {
+    data: info,
+  });
+});
+
+const CollectionStatsSchema = z.object({
+  collection: z.string(),
+});
+
+app.get('/v0/collection-stats', async (c) => {
+  const { collection } = validateWithZod(CollectionStatsSchema, c.req.query());
+
+  authorize(c, 'read', [collection]);
+  assertNotSharedTenant(c, 'read collection statistics');
+
+  await assertCollectionExists(c.get('db'), collection);
+
+  const [stats] = await c
+    .get('db')
+    .collection(collection)
+    .aggregate([{ $collStats: { storageStats: {} } }])
+    .toArray();
+  const storageStats = stats?.storageStats ?? {};
+
+  return jsonResponse(c, {
+    data: {
+      collection,
+      count: storageStats.count ?? 0,
+      size: storageStats.size ?? 0,
+      avgObjSize: storageStats.avgObjSize ?? 0,
+      storageSize: storageStats.storageSize ?? 0,
+      totalIndexSize: storageStats.totalIndexSize ?? 0,
+      indexSizes: storageStats.indexSizes ?? {},
+      nindexes: storageStats.nindexes ?? 0,
+      capped: storageStats.capped ?? false,
+    },
+  });
+});
+
+const CreateTenantSchema = z.object({
+  tenant: z
+    .string()
+    .regex(/^[\w-]{1,32}$/, 'must be 1-32 letters, digits, _ or -'),
+  isolation: z.enum(tenantIsolations).default('database'),
+  database: z
+    .string()
+    .regex(/^[\w-]{1,63}$/, 'must be 1-63 letters, digits, _ or -')
+    .optional(),
+});
+
+const reservedDatabases = ['admin', 'local', 'config'];
+
+// Tenants isolated by database get `${DB_NAME}_${tenant}` and tenants
+// isolated by field share DB_NAME, unless a database is given. Given
+// databases have to be named after DB_NAME too, so tenants can't reach
+// MongoDB's own databases or those of other applications.
+app.post('/v0/create-tenant', async (c) => {
+  const body = await parseBody(c);
+  const { tenant, isolation, database } = validateWithZod(
+    CreateTenantSchema,
+    body,
+  );
+
+  authorize(c, 'tenant');
+
+  const databaseName =
+    database ??
+    (isolation === 'database'
+      ? `${defaultDb.databaseName}_${tenant}`
+      : defaultDb.databaseName);
+
+  if (
+    reservedDatabases.includes(databaseName.toLowerCase()) ||
+    (databaseName !== defaultDb.databaseName &&
+      !databaseName.startsWith(`${defaultDb.databaseName}_`))
+  ) {
+    throw new HTTPException(400, {
+      message: `Tenant databases must be named ${defaultDb.databaseName}_<name>`,
+    });
+  }
+
+  // A tenant's own database can't hold anyone else's documents
+  const tenants = defaultDb.collection<Tenant>(tenantsCollection);
+  const existing = await tenants.findOne(
+    { database: databaseName },
+    { readPreference: 'primary' },
+  );
+  if (
+    isolation === 'database'
+      ? existing || databaseName === defaultDb.databaseName
+      : existing?.isolation === 'database'
+  ) {
+    throw new HTTPException(409, {
+      message: `Database ${databaseName} is already in use`,
+    });
+  }
+
+  const document: Tenant = {
+    _id: tenant,
+    isolation,
+    database: databaseName,
+    createdAt: new Date(),
+  };
+  try {
+    await tenants.insertOne(document);
+  } catch (error) {
+    if (error instanceof MongoServerError && error.code === 11000) {
+      throw new HTTPException(409, {
+        message: `Tenant ${tenant} already exists`,
+      });
+    }
+    throw error;
+  }
+  tenantsCache.delete(tenant);
+
+  requestLog(c, 'info', 'Created tenant', {
+    tenant,
+    isolation,
+    database: databaseName,
+  });
+
+  return jsonResponse(c, {
+    data: document,
+  });
+});
+
+app.get('/v0/tenants', async (c) => {
+  authorize(c, 'tenant');
+
+  const credential = c.get('credential');
+  const tenants = await defaultDb
+    .collection<Tenant>(tenantsCollection)
+    .find({}, { readPreference: 'primary' })
+    .sort({ _id: 1 })
+    .toArray();
+
+  return jsonResponse(c, {
+    data: tenants.filter((tenant) => canAccessTenant(credential, tenant._id)),
+  });
+});
+
+const DeleteTenantSchema = z.object({
+  tenant: z.string(),
+  dropDatabase: z.boolean().default(false),
+  confirm: z.string().optional(),
+});
+
+// Only removes the tenant unless dropDatabase is set, so its data can still
+// be recovered by creating it again
+app.post('/v0/delete-tenant', async (c) => {
+  const body = await parseBody(c);
+  const { tenant, dropDatabase, confirm } = validateWithZod(
+    DeleteTenantSchema,
+    body,
+  );
+
+  authorize(c, 'tenant');
+  if (dropDatabase) {
+    authorize(c, 'drop');
+  }
+
+  const tenants = defaultDb.collection<Tenant>(tenantsCollection);
+  const existing = await tenants.findOne(
+    { _id: tenant },
+    { readPreference: 'primary' },
+  );
+  if (!existing || !canAccessTenant(c.get('credential'), tenant)) {
+    throw new HTTPException(404, {
+      message: `Tenant ${tenant} does not exist`,
+    });
+  }
+
+  if (dropDatabase) {
+    if (existing.isolation !== 'database') {
+      throw new HTTPException(400, {
+        message: 'Only tenants isolated by database have a database to drop',
+      });
+    }
+    if (confirm !== tenant) {
+      throw new HTTPException(400, {
+        message: 'confirm must match the name of the tenant being deleted',
+      });
+    }
+    await client.db(existing.database).dropDatabase();
+    clearReadCache(existing.database);
+  }
+
+  await tenants.deleteOne({ _id: tenant });
+  tenantsCache.delete(tenant);
+
+  requestLog(c, 'warn', 'Deleted tenant', { tenant, dropDatabase });
+
+  return jsonResponse(c, {
+    data: { deleted: tenant, droppedDatabase: dropDatabase },
+  });
+});
+
+const collectionSettingsCollection = `${systemCollectionPrefix}collection_settings`;
+
+const FieldDefaultSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('value'), value: z.unknown() }),
+  z.object({ type: z.enum(['uuid', 'nanoid']) }),
+]);
+
+type FieldDefault = z.infer<typeof FieldDefaultSchema>;
+
+const encryptionModes = ['random', 'deterministic'] as const;
+
+type EncryptionMode = (typeof encryptionModes)[number];
+
+const CollectionSettingsSchema = z.object({
+  versioning: z.boolean().optional(),
+  softDelete: z.boolean().optional(),
+  purgeDeletedAfterSeconds: z.number().int().positive().nullable().optional(),
+  timestamps: z.boolean().optional(),
+  defaults: z.record(z.string(), FieldDefaultSchema).optional(),
+  encryptedFields: z
+    .record(
+      z
+        .string()
+        .regex(/^[^.$][^.]*$/, 'must be a top-level field')
+        .refine((field) => field !== '_id', '_id cannot be encrypted'),
+      z.enum(encryptionModes),
+    )
+    .optional(),
+});
+
+type CollectionSettings = z.infer<typeof CollectionSettingsSchema>;
+
+type StoredCollectionSettings = CollectionSettings & { _id: string };
+
+// Settings are needed on most requests, so they're cached briefly. Changes
+// made through this server apply immediately, other instances pick them up
+// once their cached copy expires.
+const collectionSettingsCacheMs = 5000;
+
+const collectionSettingsCache = new Map<
+  string,
+  { settings: CollectionSettings; expiresAt: number }
+>();
+
+function getNamespace(db: Db, collection: string) {
+  return `${db.databaseName}.${collection}`;
+}
+
+async function getCollectionSettings(
+  db: Db,
+  collection: string,
+): Promise<CollectionSettings> {
+  const cacheKey = getNamespace(db, collection);
+  const cached = collectionSettingsCache.get(cacheKey);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.settings;
+  }
+
+  const stored = await db
+    .collection<StoredCollectionSettings>(collectionSettingsCollection)
+    .findOne({ _id: collection }, { readPreference: 'primary' });
+  const { _id, ...settings } = stored ?? { _id: collection };
+
+  collectionSettingsCache.set(cacheKey, {
+    settings,
+    expiresAt: Date.now() + collectionSettingsCacheMs,
+  });
+  return settings;
+}
+
+// Settings are stored under the collection's name, so they follow it when it's
+// renamed and go away when it's dropped. A collection re-created later under
+// the same name starts without settings.
+async function moveCollectionSettings(
+  db: Db,
+  collection: string,
+  to: string | null,
+) {
+  const settingsCollection = db.collection<StoredCollectionSettings>(
+    collectionSettingsCollection,
+  );
+  const stored = await settingsCollection.findOneAndDelete({
+    _id: collection,
+  });
+
+  if (to !== null) {
+    if (stored) {
+      const { _id, ...settings } = stored;
+      await settingsCollection.replaceOne({ _id: to }, settings, {
+        upsert: true,
+      });
+    } else {
+      await settingsCollection.deleteOne({ _id: to });
+    }
+    collectionSettingsCache.delete(getNamespace(db, to));
+  }
+  collectionSettingsCache.delete(getNamespace(db, collection));
+}
+
+// Settings as seen by the current request, with the credential's policy for
+// the collection
+type AccessSettings = CollectionSettings & { policy?: CredentialPolicy };
+
+async function getAccessSettings(
+  c: Context<AppEnv>,
+  collection: string,
+): Promise<AccessSettings> {
+  const settings = await getCollectionSettings(c.get('db'), collection);
+  const policy = getCollectionPolicy(c, collection);
+  return policy ? { ...settings, policy } : settings;
+}
+
+const GetCollectionSettingsSchema = z.object({
+  collection: z.string(),
+});
+
+app.get('/v0/collection-settings', async (c) => {
+  const { collection } = validateWithZod(
+    GetCollectionSettingsSchema,
+    c.req.query(),
+  );
+
+  authorize(c, 'collection', [collection]);
+
+  collectionSettingsCache.delete(getNamespace(c.get('db'), collection));
+
+  return jsonResponse(c, {
+    data: await getCollectionSettings(c.get('db'), collection),
+  });
+});
+
+const SetCollectionSettingsSchema = z.object({
+  collection: z.string(),
+  settings: CollectionSettingsSchema,
+});
+
+// Only the settings that are given change, the others keep their values
+app.post('/v0/set-collection-settings', async (c) => {
+  const body = await parseBody(c);
+  const { collection, settings } = validateWithZod(
+    SetCollectionSettingsSchema,
+    body,
+  );
+
+  authorize(c, 'collection', [collection]);
+
+  if (settings.encryptedFields && encryptionKeys.length === 0) {
+    throw new HTTPException(400, {
+      message: 'Encrypted fields require ENCRYPTION_KEYS_FILE',
+    });
+  }
+
+  if (settings.purgeDeletedAfterSeconds !== undefined) {
+    await setPurgeIndex(
+      c.get('db'),
+      collection,
+      settings.purgeDeletedAfterSeconds,
+    );
+  }
+
+  if (Object.keys(settings).length > 0) {
+    await c
+      .get('db')
+      .collection<StoredCollectionSettings>(collectionSettingsCollection)
+      .updateOne({ _id: collection }, { $set: settings }, { upsert: true });
+  }
+  collectionSettingsCache.delete(getNamespace(c.get('db'), collection));
+
+  requestLog(c, 'info', 'Updated collection settings', {
+    collection,
+    settings,
+  });
+
+  return jsonResponse(c, {
+    data: await getCollectionSettings(c.get('db'), collection),
+  });
+});
+
+const versionField = '_version';
+
+const encryptionKeysFile = process.env.ENCRYPTION_KEYS_FILE;
+
+const EncryptionKeysFileSchema = z.object({
+  keys: z
+    .array(z.object({ id: z.string().min(1).max(32), key: z.base64() }))
+    .min(1),
+});
+
+type EncryptionKey = { id: string; key: Buffer; ivKey: Buffer };
+
+// The first key in the file encrypts new values, the others are only used to
+// decrypt values written before the last rotation
+let encryptionKeys: EncryptionKey[] = [];
+
+async function initEncryption() {
+  if (!encryptionKeysFile) {
+    return;
+  }
+
+  const contents = JSON.parse(await readFile(encryptionKeysFile, 'utf8'));
+  const { keys } = EncryptionKeysFileSchema.parse(contents);
+
+  encryptionKeys = keys.map(({ id, key }) => {
+    const keyBytes = Buffer.from(key, 'base64');
+    if (keyBytes.length !== 32) {
+      throw new Error(`Encryption key ${id} must be 32 bytes`);
+    }
+    return {
+      id,
+      key: keyBytes,
+      ivKey: createHmac('sha256', keyBytes).update('deterministic iv').digest(),
+    };
+  });
+
+  structuredLog('info', 'Loaded encryption keys', {
+    path: encryptionKeysFile,
+    count: encryptionKeys.length,
+    activeKeyId: encryptionKeys[0]?.id,
+  });
+}
+
+const encryptedSubtype = 0x80;
+
+const redactedValue = '[REDACTED]';
+
+function getActiveEncryptionKey() {
+  const [key] = encryptionKeys;
+  if (!key) {
+    throw new Error('Encrypted fields require ENCRYPTION_KEYS_FILE');
+  }
+  return key;
+}
+
+function isEncryptedValue(value: unknown): value is Binary {
+  return value instanceof Binary && value.sub_type === encryptedSubtype;
+}
+
+// Encrypted values are stored as Binary with a user defined subtype, laid out
+// as [mode][key id length][key id][iv][auth tag][ciphertext]. The plaintext
+// is the BSON of { v: value }, so values keep their type. Deterministic values
+// derive the iv from the plaintext, so equal values have equal ciphertexts.
+function encryptValue(
+  value: unknown,
+  mode: EncryptionMode,
+  key: EncryptionKey,
+): Binary {
+  const plaintext = BSON.serialize({ v: value });
+  const iv =
+    mode === 'deterministic'
+      ? createHmac('sha256', key.ivKey)
+          .update(plaintext)
+          .digest()
+          .subarray(0, 12)
+      : randomBytes(12);
+
+  const cipher = createCipheriv('aes-256-gcm', key.key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  const keyId = Buffer.from(key.id, 'utf8');
+
+  return new Binary(
+    Buffer.concat([
+      Buffer.from([encryptionModes.indexOf(mode), keyId.length]),
+      keyId,
+      iv,
+      cipher.getAuthTag(),
+      ciphertext,
+    ]),
+    encryptedSubtype,
+  );
+}
+
+function decryptValue(encrypted: Binary) {
+  const buffer = Buffer.from(encrypted.buffer);
+  const mode = encryptionModes[buffer[0] ?? 0] ?? 'random';
+  const ivStart = 2 + (buffer[1] ?? 0);
+  const keyId = buffer.subarray(2, ivStart).toString('utf8');
+
+  const key = encryptionKeys.find((candidate) => candidate.id === keyId);
+  if (!key) {
+    throw new Error(`Encryption key ${keyId} is not in ENCRYPTION_KEYS_FILE`);
+  }
+
+  const decipher = createDecipheriv(
+    'aes-256-gcm',
+    key.key,
+    buffer.subarray(ivStart, ivStart + 12),
+  );
+  decipher.setAuthTag(buffer.subarray(ivStart + 12, ivStart + 28));
+  const plaintext = Buffer.concat([
+    decipher.update(buffer.subarray(ivStart + 28)),
+    decipher.final(),
+  ]);
+
+  return { mode, keyId, value: BSON.deserialize(plaintext).v as unknown };
+}
+
+// Walks a response and decrypts every encrypted value in it, or redacts them
+// for credentials without the decrypt scope
+function decryptValues(value: unknown, decrypt: boolean): unknown {
+  if (isEncryptedValue(value)) {
+    return decrypt ? decryptValue(value).value : redactedValue;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => decryptValues(item, decrypt));
+  }
+  if (isPlainObject(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([field, item]) => [
+        field,
+        decryptValues(item, decrypt),
+      ]),
+    );
+  }
+  return value;
+}
+
+function canDecrypt(c: Context<AppEnv>) {
+  return c.get('credential')?.operations.includes('decrypt') ?? false;
+}
+
+// null is stored as is, so encrypted fields can still be unset or null
+function encryptFields(
+  document: Document,
+  settings: CollectionSettings,
+): Document {
+  const fields = Object.entries(settings.encryptedFields ?? {});
+  if (fields.length === 0) {
+    return document;
+  }
+
+  const encrypted = { ...document };
+  for (const [field, mode] of fields) {
+    const value = encrypted[field];
+    if (value !== undefined && value !== null && !isEncryptedValue(value)) {
+      encrypted[field] = encryptValue(value, mode, getActiveEncryptionKey());
+    }
+  }
+  return encrypted;
+}
+
+function getEncryptedField(settings: CollectionSettings, path: string) {
+  return Object.keys(settings.encryptedFields ?? {}).find((field) =>
+    pathsOverlap(field, path),
+  );
+}
+
+function encryptUpdate(
+  update: Document,
+  settings: CollectionSettings,
+): Document {
+  if (!settings.encryptedFields) {
+    return update;
+  }
+
+  return Object.fromEntries(
+    Object.entries(update).map(([operator, fields]) => {
+      if (!isPlainObject(fields)) {
+        return [operator, fields];
+      }
+
+      for (const path of Object.keys(fields)) {
+        const field = getEncryptedField(settings, path);
+        if (
+          field &&
+          (path !== field ||
+            !['$set', '$setOnInsert', '$unset'].includes(operator))
+        ) {
+          throw new HTTPException(400, {
+            message: `Encrypted field ${field} can only be changed with $set or $unset`,
+          });
+        }
+      }
+
+      return [
+        operator,
+        operator === '$unset' ? fields : encryptFields(fields, settings),
+      ];
+    }),
+  );
+}
+
+// A value is compared against its ciphertext under every key, so values
+// encrypted before a key rotation still match
+function getCiphertexts(value: unknown) {
+  if (value === null || isEncryptedValue(value)) {
+    return [value];
+  }
+  return encryptionKeys.map((key) => encryptValue(value, 'deterministic', key));
+}
+
+function encryptCondition(
+  field: string,
+  mode: EncryptionMode,
+  condition: unknown,
+): Document {
+  const operators = isPlainObject(condition)
+    ? Object.entries(condition)
+    : [['$eq', condition] as const];
+  const isEquality = operators.every(([operator]) => !operator.startsWith('$'));
+
+  if (isEquality) {
+    return encryptCondition(field, mode, { $eq: condition });
+  }
+
+  const encrypted: Document = {};
+  for (const [operator, operand] of operators) {
+    if (operator === '$exists') {
+      encrypted.$exists = operand;
+      continue;
+    }
+
+    if (mode !== 'deterministic') {
+      throw new HTTPException(400, {
+        message: `Encrypted field ${field} can only be queried with $exists`,
+      });
+    }
+
+    switch (operator) {
+      case '$eq':
+        encrypted.$in = getCiphertexts(operand);
+        break;
+      case '$in':
+        encrypted.$in = [operand].flat().flatMap(getCiphertexts);
+        break;
+      case '$ne':
+        encrypted.$nin = getCiphertexts(operand);
+        break;
+      case '$nin':
+        encrypted.$nin = [operand].flat().flatMap(getCiphertexts);
+        break;
+      default:
+        throw new HTTPException(400, {
+          message: `Encrypted field ${field} can only be queried with $eq, $ne, $in, $nin and $exists`,
+        });
+    }
+  }
+  return encrypted;
+}
+
+// Deterministic fields can be matched by equality, random fields can only be
+// checked for existence
+function encryptFilter(
+  filter: Document,
+  settings: CollectionSettings,
+): Document {
+  const fields = settings.encryptedFields;
+  if (!fields) {
+    return filter;
+  }
+
+  return Object.fromEntries(
+    Object.entries(filter).map(([path, condition]) => {
+      if (['$and', '$or', '$nor'].includes(path) && Array.isArray(condition)) {
+        return [
+          path,
+          condition.map((clause) =>
+            isPlainObject(clause) ? encryptFilter(clause, settings) : clause,
+          ),
+        ];
+      }
+
+      const field = getEncryptedField(settings, path);
+      const mode = field && fields[field];
+      if (!field || !mode) {
+        return [path, condition];
+      }
+      if (path !== field) {
+        throw new HTTPException(400, {
+          message: `Encrypted field ${field} can't be queried by subfield`,
+        });
+      }
+
+      return [path, encryptCondition(field, mode, condition)];
+    }),
+  );
+}
+
+const ReencryptSchema = z.object({
+  collection: z.string(),
+});
+
+// Re-encrypts the encrypted fields of every document with the active key, for
+// values from before a key rotation and values written before the field was
+// configured as encrypted. It can be run again to continue after a timeout.
+app.post('/v0/reencrypt', async (c) => {
+  const body = await parseBody(c);
+  const { collection } = validateWithZod(ReencryptSchema, body);
+
+  authorize(c, 'collection', [collection]);
+
+  const settings = await getCollectionSettings(c.get('db'), collection);
+  const fields = Object.entries(settings.encryptedFields ?? {});
+  if (fields.length === 0) {
+    throw new HTTPException(400, {
+      message: `Collection ${collection} has no encrypted fields`,
+    });
+  }
+
+  const activeKey = getActiveEncryptionKey();
+  const documents = c
+    .get('db')
+    .collection(collection)
+    .find(
+      { $or: fields.map(([field]) => ({ [field]: { $ne: null } })) },
+      {
+        projection: Object.fromEntries(fields.map(([field]) => [field, 1])),
+        readPreference: 'primary',
+      },
+    );
+
+  let reencryptedCount = 0;
+  for await (const document of documents) {
+    const current: Document = { _id: document._id };
+    const reencrypted: Document = {};
+
+    for (const [field, mode] of fields) {
+      const value = document[field];
+      if (value === undefined || value === null) {
+        continue;
+      }
+
+      if (isEncryptedValue(value)) {
+        const decrypted = decryptValue(value);
+        if (decrypted.keyId === activeKey.id && decrypted.mode === mode) {
+          continue;
+        }
+        reencrypted[field] = encryptValue(decrypted.value, mode, activeKey);
+      } else {
+        reencrypted[field] = encryptValue(value, mode, activeKey);
+      }
+      current[field] = value;
+    }
+
+    if (Object.keys(reencrypted).length > 0) {
+      // Matching the values read above, so a concurrent write isn't overwritten
+      const result = await c
+        .get('db')
+        .collection(collection)
+        .updateOne(current, { $set: reencrypted });
+      reencryptedCount += result.modifiedCount;
+    }
+  }
+
+  requestLog(c, 'info', 'Re-encrypted collection', {
+    collection,
+    keyId: activeKey.id,
+    reencryptedCount,
+  });
+
+  return jsonResponse(c, {
+    reencryptedCount,
+  });
+});
+
+function getPolicyFields(policy: CredentialPolicy) {
+  return [...policy.hiddenFields, ...policy.redactedFields];
+}
+
+// Fields a credential can't see can't be filtered or sorted on either, as
+// that would reveal their values one query at a time
+function assertPolicyFieldsNotQueried(
+  paths: string[],
+  policy: CredentialPolicy | undefined,
+) {
+  const fields = policy ? getPolicyFields(policy) : [];
+  for (const path of paths) {
+    const field = fields.find((candidate) => pathsOverlap(candidate, path));
+    if (field) {
+      throw new HTTPException(403, {
+        message: `Credential is not allowed to query field ${field}`,
+      });
+    }
+  }
+}
+
+function getFilterPaths(filter: Document): string[] {
+  return Object.entries(filter).flatMap(([path, condition]) => {
+    if (['$and', '$or', '$nor'].includes(path) && Array.isArray(condition)) {
+      return condition.flatMap((clause) =>
+        isPlainObject(clause) ? getFilterPaths(clause) : [],
+      );
+    }
+    return path === '$comment' ? [] : [path];
+  });
+}
+
+function withPolicyFilter(filter: Document, settings: AccessSettings) {
+  const policy = settings.policy;
+  if (!policy) {
+    return filter;
+  }
+
+  const paths = getFilterPaths(filter);
+  if (getPolicyFields(policy).length > 0) {
+    // Operators like $expr can reference any field
+    const operator = paths.find((path) => path.startsWith('$'));
+    if (operator) {
+      throw new HTTPException(403, {
+        message: `Credential is not allowed to use ${operator} on this collection`,
+      });
+    }
+    assertPolicyFieldsNotQueried(paths, policy);
+  }
+
+  return policy.filter ? { $and: [filter, policy.filter] } : filter;
+}
+
+// The equality conditions of the policy filter, which are set on inserted and
+// replaced documents so they stay visible to the credential
+function getPolicyValues(settings: AccessSettings): Document {
+  return Object.fromEntries(
+    Object.entries(settings.policy?.filter ?? {}).filter(
+      ([path, condition]) =>
+        !path.startsWith('$') &&
+        !path.includes('.') &&
+        !(
+          isPlainObject(condition) &&
+          Object.keys(condition).some((key) => key.startsWith('$'))
+        ),
+    ),
+  );
+}
+
+// Updates can't move documents out of the policy filter, and can't touch
+// hidden or redacted fields either, as e.g. $rename would copy their values
+// into a field the credential can read
+function assertPolicyFieldsNotWritten(
+  paths: string[],
+  settings: AccessSettings,
+) {
+  const policy = settings.policy;
+  const fields = [
+    ...Object.keys(policy?.filter ?? {}).filter(
+      (field) => !field.startsWith('$'),
+    ),
+    ...(policy ? getPolicyFields(policy) : []),
+  ];
+  for (const path of paths) {
+    const field = fields.find((candidate) => pathsOverlap(candidate, path));
+    if (field) {
+      throw new HTTPException(403, {
+        message: `Credential is not allowed to change field ${field}`,
+      });
+    }
+  }
+}
+
+// Hidden and redacted fields are matched at every level of a response, so
+// they're also caught in audit entries, change events and nested documents
+function applyFieldPolicies(
+  value: unknown,
+  hiddenFields: string[],
+  redactedFields: string[],
+): unknown {
+  if (Array.isArray(value)) {
+    return value.map((item) =>
+      applyFieldPolicies(item, hiddenFields, redactedFields),
+    );
+  }
+  if (!isPlainObject(value)) {
+    return value;
+  }
+
+  const nested = (fields: string[], field: string) =>
+    fields
+      .filter((path) => path.startsWith(`${field}.`))
+      .map((path) => path.slice(field.length + 1));
+
+  const result: Record<string, unknown> = {};
+  for (const [field, item] of Object.entries(value)) {
+    if (hiddenFields.includes(field)) {
+      continue;
+    }
+    result[field] = redactedFields.includes(field)
+      ? redactedValue
+      : applyFieldPolicies(
+          item,
+          [...hiddenFields, ...nested(hiddenFields, field)],
+          [...redactedFields, ...nested(redactedFields, field)],
+        );
+  }
+  return result;
+}
+
+const createdAtField = 'createdAt';
+const updatedAtField = 'updatedAt';
+
+const nanoidAlphabet =
+  'useandom-26T198340PX75pxJACKVERYMINDBUSHWOLF_GQZbfghjklqvwyzrict';
+
+// 21 URL-safe characters, the same format as the nanoid package
+function generateNanoid() {
+  return Array.from(randomBytes(21), (byte) => nanoidAlphabet[byte & 63]).join(
+    '',
+  );
+}
+
+function getFieldDefault(fieldDefault: FieldDefault): unknown {
+  switch (fieldDefault.type) {
+    case 'value':
+      return fieldDefault.value;
+    case 'uuid':
+      return randomUUID();
+    case 'nanoid':
+      return generateNanoid();
+  }
+}
+
+function getManagedFields(settings: CollectionSettings) {
+  return [
+    ...(settings.versioning ? [versionField] : []),
+    ...(settings.timestamps ? [createdAtField, updatedAtField] : []),
+  ];
+}
+
+function assertManagedFieldsNotWritten(
+  fields: Document,
+  settings: CollectionSettings,
+) {
+  for (const field of getManagedFields(settings)) {
+    if (field in fields) {
+      throw new HTTPException(400, {
+        message: `${field} is managed by the server`,
+      });
+    }
+  }
+}
+
+function withDefaults(document: Document, settings: CollectionSettings) {
+  const defaults: Document = {};
+  for (const [field, fieldDefault] of Object.entries(settings.defaults ?? {})) {
+    if (!(field in document)) {
+      defaults[field] = getFieldDefault(fieldDefault);
+    }
+  }
+
+  return { ...defaults, ...document };
+}
+
+// Every inserted document passes through here, so defaults, the initial
+// version and timestamps are set the same way on every route
+function toManagedDocument(
+  document: Document,
+  settings: AccessSettings,
+): Document {
+  assertManagedFieldsNotWritten(document, settings);
+
+  const now = new Date();
+  return {
+    ...encryptFields(
+      { ...withDefaults(document, settings), ...getPolicyValues(settings) },
+      settings,
+    ),
+    ...(settings.versioning ? { [versionField]: 1 } : {}),
+    ...(settings.timestamps
+      ? { [createdAtField]: now, [updatedAtField]: now }
+      : {}),
+  };
+}
+
+// Setting both a path and one of its parents in one update is a conflict
+function pathsOverlap(a: string, b: string) {
+  return a === b || a.startsWith(`${b}.`) || b.startsWith(`${a}.`);
+}
+
+function mergeOperator(update: Document, operator: string, fields: Document) {
+  const existing = isPlainObject(update[operator]) ? update[operator] : {};
+  return { ...update, [operator]: { ...existing, ...fields } };
+}
+
+// Managed fields are added to the update's operators. createdAt and defaults
+// go in $setOnInsert, so they only apply when the update upserts, and
+// defaults skip the fields the update sets itself.
+function toManagedUpdate(update: Document, settings: AccessSettings): Document {
+  const updatedFields = new Set<string>();
+  for (const [operator, fields] of Object.entries(update)) {
+    if (isPlainObject(fields)) {
+      for (const [field, value] of Object.entries(fields)) {
+        updatedFields.add(field);
+        // $rename writes to the field it's given as well
+        if (operator === '$rename' && typeof value === 'string') {
+          updatedFields.add(value);
+        }
+      }
+    }
+  }
+  assertManagedFieldsNotWritten(
+    Object.fromEntries([...updatedFields].map((field) => [field, true])),
+    settings,
+  );
+  assertPolicyFieldsNotWritten([...updatedFields], settings);
+
+  let managed = encryptUpdate(update, settings);
+  if (settings.versioning) {
+    managed = mergeOperator(managed, '$inc', { [versionField]: 1 });
+  }
+  if (settings.timestamps) {
+    const now = new Date();
+    managed = mergeOperator(managed, '$set', { [updatedAtField]: now });
+    managed = mergeOperator(managed, '$setOnInsert', { [createdAtField]: now });
+  }
+
+  const defaults = Object.entries(settings.defaults ?? {}).filter(
+    ([field]) =>
+      ![...updatedFields].some((updated) => pathsOverlap(field, updated)),
+  );
+  if (defaults.length > 0) {
+    managed = mergeOperator(
+      managed,
+      '$setOnInsert',
+      encryptFields(
+        Object.fromEntries(
+          defaults.map(([field, fieldDefault]) => [
+            field,
+            getFieldDefault(fieldDefault),
+          ]),
+        ),
+        settings,
+      ),
+    );
+  }
+
+  return managed;
+}
+
+function toManagedFilter(
+  filter: Document,
+  settings: AccessSettings,
+  includeDeleted = false,
+): Document {
+  return withoutDeleted(
+    encryptFilter(withPolicyFilter(filter, settings), settings),
+    settings,
+    includeDeleted,
+  );
+}
+
+// Replacements can't use update operators, so with managed fields they're run
+// as a pipeline update that swaps in the new document while keeping the _id,
+// bumping the version and keeping createdAt
+function toManagedReplacement(
+  replacement: Document,
+  settings: AccessSettings,
+): Document | Document[] {
+  assertManagedFieldsNotWritten(replacement, settings);
+
+  const document = encryptFields(
+    { ...withDefaults(replacement, settings), ...getPolicyValues(settings) },
+    settings,
+  );
+  if (!settings.versioning && !settings.timestamps) {
+    return document;
+  }
+
+  const now = new Date();
+  return [
+    {
+      $replaceWith: {
+        $mergeObjects: [
+          { $literal: document },
+          {
+            _id: '$_id',
+            ...(settings.versioning
+              ? {
+                  [versionField]: {
+                    $add: [{ $ifNull: [`$${versionField}`, 0] }, 1],
+                  },
+                }
+              : {}),
+            ...(settings.timestamps
+              ? {
+                  [createdAtField]: {
+                    $ifNull: [`$${createdAtField}`, { $literal: now }],
+                  },
+                  [updatedAtField]: { $literal: now },
+                }
+              : {}),
+          },
+        ],
+      },
+    },
+  ];
+}
+
+// Documents written before versioning was enabled have no _version yet and
+// count as version 0
+function withExpectedVersion(filter: Document, expectedVersion: number) {
+  return {
+    $and: [
+      filter,
+      {
+        [versionField]:
+          expectedVersion === 0 ? { $in: [null, 0] } : expectedVersion,
+      },
+    ],
+  };
+}
+
+function getVersionETag(document: Document) {
+  return `"${document[versionField] ?? 0}"`;
+}
+
+// The expected version comes from the If-Match header, e.g. If-Match: "3" as
+// returned in the ETag of find-one, or the expectedVersion body field
+function getExpectedVersion(
+  c: Context,
+  settings: CollectionSettings,
+  bodyVersion: number | undefined,
+): number | undefined {
+  let expectedVersion = bodyVersion;
+
+  const ifMatch = c.req.header('if-match');
+  if (ifMatch !== undefined) {
+    const match = /^"?(\d+)"?$/.exec(ifMatch.trim());
+    if (!match) {
+      throw new HTTPException(400, {
+        message: 'If-Match must be a document version, e.g. "3"',
+      });
+    }
+    expectedVersion = Number(match[1]);
+  }
+
+  if (expectedVersion !== undefined && !settings.versioning) {
+    throw new HTTPException(400, {
+      message: 'Versioning is not enabled for this collection',
+    });
+  }
+
+  return expectedVersion;
+}
+
+// When a write with an expected version matched nothing, tells a version
+// mismatch apart from the document not existing at all
+async function isVersionMismatch(
+  db: Db,
+  collection: string,
+  filter: Document,
+  session?: ClientSession,
+) {
+  const count = await db
+    .collection(collection)
+    .countDocuments(
+      filter,
+      session ? { limit: 1, session } : { limit: 1, readPreference: 'primary' },
+    );
+
+  return count > 0;
+}
+
+const deletedField = 'deletedAt';
+
+const purgeIndexName = `${deletedField}_purge`;
+
+// Deleted documents are hidden from reads and updates unless includeDeleted
+// is set. $exists rather than null so upserts don't copy it into the document.
+function withoutDeleted(
+  filter: Document,
+  settings: CollectionSettings,
+  includeDeleted = false,
+): Document {
+  if (!settings.softDelete || includeDeleted) {
+    return filter;
+  }
+  return { $and: [filter, { [deletedField]: { $exists: false } }] };
+}
+
+function onlyDeleted(filter: Document): Document {
+  return { $and: [filter, { [deletedField]: { $exists: true } }] };
+}
+
+function getSoftDeleteUpdate(settings: AccessSettings): Document {
+  return toManagedUpdate({ $set: { [deletedField]: new Date() } }, settings);
+}
+
+// Auto-purging is a TTL index on deletedAt, which only ever matches
+// documents that have been soft deleted
+async function setPurgeIndex(
+  db: Db,
+  collection: string,
+  seconds: number | null,
+) {
+  const existing = (await listIndexes(db, collection)).some(
+    (index) => index.name === purgeIndexName,
+  );
+
+  if (seconds === null) {
+    if (existing) {
+      await db.collection(collection).dropIndex(purgeIndexName);
+    }
+    return;
+  }
+
+  if (existing) {
+    await db.command({
+      collMod: collection,
+      index: { name: purgeIndexName, expireAfterSeconds: seconds },
+    });
+  } else {
+    await db
+      .collection(collection)
+      .createIndex(
+        { [deletedField]: 1 },
+        { name: purgeIndexName, expireAfterSeconds: seconds },
+      );
+  }
+}
+
+const CreateIndexSchema = z.object({
+  collection: z.string(),
+  keys: z.any(),
+  options: z.looseObject({}).default({}),
+});
+
+app.post('/v0/create-index', async (c) => {
+  const body = await parseBody(c);
+  const { collection, keys, options } = validateWithZod(
+    CreateIndexSchema,
+    body,
+  );
+
+  authorize(c, 'index', [collection]);
+
+  const result = await c
+    .get('db')
+    .collection(collection)
+    .createIndex(keys, options);
+
+  return jsonResponse(c, {
+    data: { indexName: result },
+  });
+});
+
+const IndexKeysSchema = z.record(
+  z.string(),
+  z.union([
+    z.number(),
+    z.enum(['2d', '2dsphere', 'text', 'geoHaystack', 'hashed']),
+  ]),
+);
+
+type IndexKeys = z.infer<typeof IndexKeysSchema>;
+
+function isSameValue(a: unknown, b: unknown) {
+  return EJSON.stringify(a ?? null) === EJSON.stringify(b ?? null);
+}
+
+// Mirrors the driver's default index naming, e.g. { a: 1, b: -1 } => a_1_b_-1
+function defaultIndexName(keys: IndexKeys) {
+  return Object.entries(keys)
+    .map(([field, direction]) => `${field}_${direction}`)
+    .join('_');
+}
+
+async function listIndexes(db: Db, collection: string) {
+  try {
+    return await db.collection(collection).indexes();
+  } catch (error) {
+    // NamespaceNotFound, the collection has no indexes yet
+    if (error instanceof MongoServerError && error.code === 26) {
+      return [];
+    }
+    throw error;
+  }
+}
+
+async function resolveIndexName(
+  db: Db,
+  collection: string,
+  index: string | IndexKeys,
+) {
+  if (typeof index === 'string') {
+    return index;
+  }
+
+  const indexes = await listIndexes(db, collection);
+  const match = indexes.find((existing) => isSameValue(existing.key, index));
+  if (!match?.name) {
+    throw new HTTPException(404, {
+      message: `No index on ${collection} matches ${EJSON.stringify(index)}`,
+    });
+  }
+
+  return match.name;
+}
+
+const ListIndexesSchema = z.object({
+  collection: z.string(),
+});
+
+app.get('/v0/indexes', async (c) => {
+  const { collection } = validateWithZod(ListIndexesSchema, c.req.query());
+
+  authorize(c, 'index', [collection]);
+
+  const indexes = await listIndexes(c.get('db'), collection);
+
+  return jsonResponse(c, {
+    data: indexes,
+    count: indexes.length,
+  });
+});
+
+const DropIndexSchema = z.object({
+  collection: z.string(),
+  index: z.union([z.string(), IndexKeysSchema]),
+});
+
+app.post('/v0/drop-index', async (c) => {
+  const body = await parseBody(c);
+  const { collection, index } = validateWithZod(DropIndexSchema, body);
+
+  authorize(c, 'index', [collection]);
+
+  const indexName = await resolveIndexName(c.get('db'), collection, index);
+  if (indexName === '_id_') {
+    throw new HTTPException(400, {
+      message: 'The _id index cannot be dropped',
+    });
+  }
+
+  await c.get('db').collection(collection).dropIndex(indexName);
+
+  return jsonResponse(c, {
+    data: { indexName },
+  });
+});
+
+const HideIndexSchema = z.object({
+  collection: z.string(),
+  index: z.union([z.string(), IndexKeysSchema]),
+});
+
+async function setIndexHidden(c: Context<AppEnv>, hidden: boolean) {
+  const body = await parseBody(c);
+  const { collection, index } = validateWithZod(HideIndexSchema, body);
+
+  authorize(c, 'index', [collection]);
+
+  const indexName = await resolveIndexName(c.get('db'), collection, index);
+  await c
+    .get('db')
+    .command({ collMod: collection, index: { name: indexName, hidden } });
+
+  return jsonResponse(c, {
+    data: { indexName, hidden },
+  });
+}
+
+app.post('/v0/hide-index', (c) => setIndexHidden(c, true));
+
+app.post('/v0/unhide-index', (c) => setIndexHidden(c, false));
+
+const IndexSpecSchema = z.object({
+  keys: IndexKeysSchema,
+  options: z.looseObject({}).default({}),
+});
+
+type IndexSpec = z.infer<typeof IndexSpecSchema>;
+
+function getSpecName(spec: IndexSpec) {
+  return typeof spec.options.name === 'string' ? spec.options.name : undefined;
+}
+
+const SyncIndexesSchema = z.object({
+  collection: z.string(),
+  indexes: z.array(IndexSpecSchema),
+  dropExtras: z.boolean().default(false),
+  dryRun: z.boolean().default(false),
+});
+
+const comparedIndexOptions = [
+  'unique',
+  'sparse',
+  'partialFilterExpression',
+  'expireAfterSeconds',
+  'collation',
+] as const;
+
+// Text indexes are stored with an internal { _fts: 'text', _ftsx: 1 } key in
+// place of their text fields, which are listed in weights instead
+function getStoredIndexKeys(keys: IndexKeys): Document {
+  const stored: Document = {};
+  for (const [field, direction] of Object.entries(keys)) {
+    if (direction !== 'text') {
+      stored[field] = direction;
+    } else if (!('_fts' in stored)) {
+      stored._fts = 'text';
+      stored._ftsx = 1;
+    }
+  }
+  return stored;
+}
+
+function getTextIndexWeights(spec: IndexSpec): Document | undefined {
+  const textFields = Object.keys(spec.keys).filter(
+    (field) => spec.keys[field] === 'text',
+  );
+  if (textFields.length === 0) {
+    return undefined;
+  }
+
+  return {
+    ...Object.fromEntries(textFields.map((field) => [field, 1])),
+    ...(isPlainObject(spec.options.weights) ? spec.options.weights : {}),
+  };
+}
+
+function sortedEntries(value: Document | undefined) {
+  return Object.entries(value ?? {}).sort(([a], [b]) => (a < b ? -1 : 1));
+}
+
+function indexMatchesSpec(existing: IndexDescriptionInfo, spec: IndexSpec) {
+  const name = getSpecName(spec);
+  if (name !== undefined && name !== existing.name) {
+    return false;
+  }
+
+  if (!isSameValue(existing.key, getStoredIndexKeys(spec.keys))) {
+    return false;
+  }
+
+  const weights = getTextIndexWeights(spec);
+  if (
+    weights &&
+    !isSameValue(sortedEntries(existing.weights), sortedEntries(weights))
+  ) {
+    return false;
+  }
+
+  return comparedIndexOptions.every((option) => {
+    const desired = spec.options[option];
+    const actual = existing[option];
+
+    if (option === 'unique' || option === 'sparse') {
+      return Boolean(desired) === Boolean(actual);
+    }
+
+    // The server expands collations with defaults, only compare what was asked for
+    if (option === 'collation' && isPlainObject(desired)) {
+      return Object.entries(desired).every(([key, value]) =>
+        isSameValue(isPlainObject(actual) ? actual[key] : undefined, value),
+      );
+    }
+
+    return isSameValue(desired, actual);
+  });
+}
+
+// Desired indexes are matched to existing ones by name when a name is given,
+// otherwise by key pattern. Existing indexes with different options can only
+// be replaced (dropped and re-created) when dropExtras is set.
+app.post('/v0/sync-indexes', async (c) => {
+  const body = await parseBody(c);
+  const { collection, indexes, dropExtras, dryRun } = validateWithZod(
+    SyncIndexesSchema,
+    body,
+  );
+
+  authorize(c, 'index', [collection]);
+
+  const existingIndexes = await listIndexes(c.get('db'), collection);
+  const matched = new Set<string>();
+  const toCreate: IndexSpec[] = [];
+  const toDrop: string[] = [];
+  const unchanged: string[] = [];
+  const conflicts: string[] = [];
+
+  for (const spec of indexes) {
+    const name = getSpecName(spec);
+    const existing = existingIndexes.find((index) =>
+      name !== undefined
+        ? index.name === name
+        : isSameValue(index.key, getStoredIndexKeys(spec.keys)),
+    );
+
+    if (!existing?.name) {
+      toCreate.push(spec);
+      continue;
+    }
+
+    matched.add(existing.name);
+
+    if (indexMatchesSpec(existing, spec)) {
+      unchanged.push(existing.name);
+    } else if (dropExtras) {
+      toDrop.push(existing.name);
+      toCreate.push(spec);
+    } else {
+      conflicts.push(existing.name);
+    }
+  }
+
+  const extras = existingIndexes
+    .map((index) => index.name)
+    .filter(
+      (name): name is string =>
+        name !== undefined && name !== '_id_' && !matched.has(name),
+    );
+
+  if (dropExtras) {
+    toDrop.push(...extras);
+  }
+
+  if (!dryRun) {
+    for (const indexName of toDrop) {
+      await c.get('db').collection(collection).dropIndex(indexName);
+    }
+
+    for (const spec of toCreate) {
+      await c
+        .get('db')
+        .collection(collection)
+        .createIndex(spec.keys, spec.options);
+    }
+  }
+
+  requestLog(c, 'info', 'Synced indexes', {
+    collection,
+    dryRun,
+    created: toCreate.length,
+    dropped: toDrop.length,
+  });
+
+  return jsonResponse(c, {
+    data: {
+      dryRun,
+      created: toCreate.map(
+        (spec) => getSpecName(spec) ?? defaultIndexName(spec.keys),
+      ),
+      dropped: toDrop,
+      unchanged,
+      conflicts,
+      extras: dropExtras ? [] : extras,
+    },
+  });
+});
+
+const GetSchemaSchema = z.object({
+  collection: z.string(),
+});
+
+app.get('/v0/schema', async (c) => {
+  const { collection } = validateWithZod(GetSchemaSchema, c.req.query());
+
+  authorize(c, 'schema', [collection]);
+
+  const [info] = await c
+    .get('db')
+    .listCollections({ name: collection })
+    .toArray();
+  const options = info && 'options' in info ? info.options : undefined;
+
+  return jsonResponse(c, {
+    data: {
+      schema: options?.validator?.$jsonSchema ?? null,
+      validationLevel: options?.validationLevel ?? null,
+    },
+  });
+});
+
+const SetSchemaSchema = z.object({
+  collection: z.string(),
+  schema: z.looseObject({}),
+  validationLevel: z.enum(['strict', 'moderate']).default('strict'),
+});
+
+// Schemas are stored as MongoDB $jsonSchema validators, so they are enforced
+// by the server on every write path, transactions included
+app.post('/v0/set-schema', async (c) => {
+  const body = await parseBody(c);
+  const { collection, schema, validationLevel } = validateWithZod(
+    SetSchemaSchema,
+    body,
+  );
+
+  authorize(c, 'schema', [collection]);
+
+  const validatorOptions = {
+    validator: { $jsonSchema: schema },
+    validationLevel,
+    validationAction: 'error',
+  } as const;
+
+  if (await collectionExists(c.get('db'), collection)) {
+    await c.get('db').command({ collMod: collection, ...validatorOptions });
+  } else {
+    await c.get('db').createCollection(collection, validatorOptions);
+  }
+
+  return jsonResponse(c, {
+    data: { schema, validationLevel },
+  });
+});
+
+const DeleteSchemaSchema = z.object({
+  collection: z.string(),
+});
+
+app.post('/v0/delete-schema', async (c) => {
+  const body = await parseBody(c);
+  const { collection } = validateWithZod(DeleteSchemaSchema, body);
+
+  authorize(c, 'schema', [collection]);
+
+  await assertCollectionExists(c.get('db'), collection);
+
+  await c.get('db').command({
+    collMod: collection,
+    validator: {},
+    validationLevel: 'off',
+  });
+
+  return jsonResponse(c, {
+    data: { schema: null },
+  });
+});
+
+const webhooksCollection = `${systemCollectionPrefix}webhooks`;
+
+const webhookMaxAttempts = Number.parseInt(
+  process.env.WEBHOOK_MAX_ATTEMPTS || '5',
+  10,
+);
+
+const webhookRetryBaseMs = Number.parseInt(
+  process.env.WEBHOOK_RETRY_BASE_MS || '1000',
+  10,
+);
+
+type WebhookSubscription = {
+  _id: ObjectId;
+  database?: string;
+  collection: string;
+  pipeline: Document[];
+  url: string;
+  secret: string;
+  createdAt: Date;
+  startAtOperationTime?: Timestamp;
+  resumeToken?: ResumeToken;
+  failedDeliveries?: number;
+  lastError?: string;
+  decrypt?: boolean;
+  hiddenFields?: string[];
+  redactedFields?: string[];
+};
+
+// Change streams currently open for webhook subscriptions, keyed by id. A
+// stream that is no longer in the map was stopped on purpose.
+const webhookStreams = new Map<string, ChangeStream>();
+
+// Change events of deletes don't include the document, so there's nothing to
+// match a policy filter against
+function assertNoPolicyFilter(c: Context<AppEnv>, collection: string) {
+  const policy = getCollectionPolicy(c, collection);
+  if (policy?.filter) {
+    throw new HTTPException(403, {
+      message: `Credential policy for collection ${collection} doesn't allow change streams`,
+    });
+  }
+  return policy;
+}
+
+function sleep(ms: number) {
+  return new Promise<void>((resolve) => setTimeout(resolve, ms));
+}
+
+// Receivers verify X-Webhook-Signature, a hex HMAC-SHA256 of
+// `${timestamp}.${body}` keyed with the secret returned on creation
+async function deliverWebhookEvent(
+  subscription: WebhookSubscription,
+  change: ChangeStreamDocument,
+) {
+  // Encrypted values are only decrypted if the webhook was created by a
+  // credential with the decrypt scope, and its field policies still apply
+  const body = EJSON.stringify(
+    {
+      subscriptionId: subscription._id,
+      event: applyFieldPolicies(
+        decryptValues(change, subscription.decrypt === true),
+        subscription.hiddenFields ?? [],
+        subscription.redactedFields ?? [],
+      ),
+    },
+    { relaxed: true },
+  );
+  let lastError = '';
+
+  for (let attempt = 1; attempt <= webhookMaxAttempts; attempt++) {
+    const timestamp = Date.now().toString();
+    const signature = createHmac('sha256', subscription.secret)
+      .update(`${timestamp}.${body}`)
+      .digest('hex');
+
+    try {
+      const response = await fetch(subscription.url, {
+        method: 'POST',
+        body,
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Webhook-Id': subscription._id.toHexString(),
+          'X-Webhook-Timestamp': timestamp,
+          'X-Webhook-Signature': signature,
+        },
+        signal: AbortSignal.timeout(10000),
+      });
+      if (response.ok) {
+        return;
+      }
+      lastError = `Receiver responded with status ${response.status}`;
+    } catch (error) {
+      lastError = error instanceof Error ? error.message : String(error);
+    }
+
+    if (attempt < webhookMaxAttempts) {
+      await sleep(webhookRetryBaseMs * 2 ** (attempt - 1));
+    }
+  }
+
+  // Give up on this event rather than blocking the subscription forever, the
+  // failure stays visible on the subscription
+  structuredLog('error', 'Webhook delivery failed', {
+    subscriptionId: subscription._id.toHexString(),
+    url: subscription.url,
+    attempts: webhookMaxAttempts,
+    error: lastError,
+  });
+  await defaultDb
+    .collection<WebhookSubscription>(webhooksCollection)
+    .updateOne(
+      { _id: subscription._id },
+      { $set: { lastError }, $inc: { failedDeliveries: 1 } },
+    );
+}
+
+// Subscriptions created before tenants existed watch the default database
+function getWebhookDatabase(subscription: WebhookSubscription) {
+  return subscription.database ?? defaultDb.databaseName;
+}
+
+// Events are delivered one at a time and the resume token is only stored
+// after a delivery, so a restart picks up at the first undelivered event
+async function runWebhook(subscription: WebhookSubscription) {
+  const id = subscription._id.toHexString();
+  const subscriptions =
+    defaultDb.collection<WebhookSubscription>(webhooksCollection);
+  const stream = client
+    .db(getWebhookDatabase(subscription))
+    .collection(subscription.collection)
+    .watch(subscription.pipeline, {
+      fullDocument: 'updateLookup',
+      ...(subscription.resumeToken
+        ? { startAfter: subscription.resumeToken }
+        : subscription.startAtOperationTime
+          ? { startAtOperationTime: subscription.startAtOperationTime }
+          : {}),
+    });
+  webhookStreams.set(id, stream);
+
+  try {
+    let savedToken = JSON.stringify(subscription.resumeToken ?? null);
+    while (!stream.closed) {
+      const change = await stream.tryNext();
+      if (change) {
+        await deliverWebhookEvent(subscription, change);
+      }
+
+      // The stream's token moves on after every batch, including empty ones,
+      // so events filtered out by the pipeline don't have to be scanned again
+      const resumeToken = stream.resumeToken;
+      if (resumeToken && JSON.stringify(resumeToken) !== savedToken) {
+        await subscriptions.updateOne(
+          { _id: subscription._id },
+          { $set: { resumeToken } },
+        );
+        savedToken = JSON.stringify(resumeToken);
+      }
+    }
+  } catch (error) {
+    if (webhookStreams.get(id) === stream) {
+      errorLog('error', 'Webhook change stream failed', error, {
+        subscriptionId: id,
+      });
+
+      // ChangeStreamHistoryLost, the oplog no longer reaches back to the
+      // stored position so the only option left is to continue from now
+      if (error instanceof MongoServerError && error.code === 286) {
+        await subscriptions.updateOne(
+          { _id: subscription._id },
+          { $unset: { resumeToken: '', startAtOperationTime: '' } },
+        );
+      }
+    }
+  }
+
+  if (webhookStreams.get(id) !== stream) {
+    return;
+  }
+  webhookStreams.delete(id);
+  await stream.close();
+
+  // The stream was invalidated (e.g. the collection was dropped) or failed,
+  // reopen it from the last delivered event unless the subscription is gone
+  await sleep(webhookRetryBaseMs);
+  const latest = await subscriptions.findOne(
+    { _id: subscription._id },
+    { readPreference: 'primary' },
+  );
+  if (latest && !webhookStreams.has(id)) {
+    startWebhook(latest);
+  }
+}
+
+function startWebhook(subscription: WebhookSubscription) {
+  runWebhook(subscription).catch((error) => {
+    errorLog('error', 'Webhook stopped', error, {
+      subscriptionId: subscription._id.toHexString(),
+    });
+  });
+}
+
+async function stopWebhook(id: string) {
+  const stream = webhookStreams.get(id);
+  webhookStreams.delete(id);
+  await stream?.close();
+}
+
+async function initWebhooks() {
+  const subscriptions = await defaultDb
+    .collection<WebhookSubscription>(webhooksCollection)
+    .find({}, { readPreference: 'primary' })
+    .toArray();
+
+  for (const subscription of subscriptions) {
+    startWebhook(subscription);
+  }
+
+  if (subscriptions.length > 0) {
+    structuredLog('info', 'Started webhooks', {
+      count: subscriptions.length,
+    });
+  }
+}
+
+function toWebhookResponse(subscription: WebhookSubscription) {
+  return {
+    id: subscription._id.toHexString(),
+    collection: subscription.collection,
+    pipeline: subscription.pipeline,
+    url: subscription.url,
+    createdAt: subscription.createdAt,
+    failedDeliveries: subscription.failedDeliveries ?? 0,
+    lastError: subscription.lastError ?? null,
+  };
+}
+
+const CreateWebhookSchema = z.object({
+  collection: z.string(),
+  pipeline: z.array(z.looseObject({})).default([]),
+  url: z.url({ protocol: /^https?$/ }),
+});
+
+app.post('/v0/create-webhook', async (c) => {
+  const body = await parseBody(c);
+  const { collection, pipeline, url } = validateWithZod(
+    CreateWebhookSchema,
+    body,
+  );
+
+  for (const [index, stage] of pipeline.entries()) {
+    const [name] = Object.keys(stage);
+    if (
+      Object.keys(stage).length !== 1 ||
+      name !== '$match' ||
+      !isPlainObject(stage.$match)
+    ) {
+      throw new HTTPException(400, {
+        message: `Webhook pipelines can only contain $match stages (pipeline.${index})`,
+      });
+    }
+  }
+
+  authorize(c, 'watch', [collection]);
+
+  const policy = assertNoPolicyFilter(c, collection);
+  for (const stage of pipeline) {
+    assertChangeFieldsNotQueried(stage.$match as Document, policy);
+  }
+
+  // Events are delivered from the moment the webhook was created, even if the
+  // server stops before its stream reports a first resume token
+  const startAtOperationTime = await client.withSession(async (session) => {
+    await c.get('db').command({ ping: 1 }, { session });
+    return session.operationTime;
+  });
+
+  const subscription: WebhookSubscription = {
+    _id: new ObjectId(),
+    database: c.get('db').databaseName,
+    collection,
+    pipeline,
+    url,
+    secret: randomBytes(32).toString('hex'),
+    createdAt: new Date(),
+    ...(startAtOperationTime ? { startAtOperationTime } : {}),
+    decrypt: canDecrypt(c),
+    ...(policy
+      ? {
+          hiddenFields: policy.hiddenFields,
+          redactedFields: policy.redactedFields,
+        }
+      : {}),
+  };
+  await defaultDb
+    .collection<WebhookSubscription>(webhooksCollection)
+    .insertOne(subscription);
+  startWebhook(subscription);
+
+  requestLog(c, 'info', 'Created webhook', {
+    subscriptionId: subscription._id.toHexString(),
+    collection,
+  });
+
+  // The secret is only ever returned here
+  return jsonResponse(c, {
+    data: { ...toWebhookResponse(subscription), secret: subscription.secret },
+  });
 });
 
-app.post('/v0/count', async (c) => {
-  const body = await c.req.json();
-  const { collection, filter, options } = validateWithZod(CountSchema, body);
-  const count = await db.collection(collection).countDocuments(filter, options);
+app.get('/v0/webhooks', async (c) => {
+  authorize(c, 'watch');
 
-  return c.json({
-    count,
+  const credential = c.get('credential');
+  const subscriptions = await defaultDb
+    .collection<WebhookSubscription>(webhooksCollection)
+    .find({}, { readPreference: 'primary' })
+    .toArray();
+
+  return jsonResponse(c, {
+    data: subscriptions
+      .filter(
+        (subscription) =>
+          getWebhookDatabase(subscription) === c.get('db').databaseName &&
+          canAccessCollection(credential, subscription.collection),
+      )
+      .map(toWebhookResponse),
   });
 });
 
-app.get('/v0/collections', async (c) => {
-  const collections = await db.listCollections().toArray();
-  return c.json({
-    data: collections.map((col) => col.name),
+const DeleteWebhookSchema = z.object({
+  id: z.string().regex(/^[0-9a-f]{24}$/i, 'Invalid webhook id'),
+});
+
+app.post('/v0/delete-webhook', async (c) => {
+  const body = await parseBody(c);
+  const { id } = validateWithZod(DeleteWebhookSchema, body);
+
+  const subscriptions =
+    defaultDb.collection<WebhookSubscription>(webhooksCollection);
+  const subscription = await subscriptions.findOne(
+    { _id: new ObjectId(id) },
+    { readPreference: 'primary' },
+  );
+  if (
+    !subscription ||
+    getWebhookDatabase(subscription) !== c.get('db').databaseName
+  ) {
+    throw new HTTPException(404, {
+      message: `Webhook ${id} does not exist`,
+    });
+  }
+
+  authorize(c, 'watch', [subscription.collection]);
+
+  await subscriptions.deleteOne({ _id: subscription._id });
+  await stopWebhook(id);
+
+  return jsonResponse(c, {
+    data: { deleted: id },
   });
 });
 
-const CreateIndexSchema = z.object({
+const watchMaxConnections = Number.parseInt(
+  process.env.WATCH_MAX_CONNECTIONS || '100',
+  10,
+);
+
+const watchHeartbeatMs = Number.parseInt(
+  process.env.WATCH_HEARTBEAT_MS || '15000',
+  10,
+);
+
+let watchConnections = 0;
+
+const WatchSchema = z.object({
   collection: z.string(),
-  keys: z.any(),
-  options: z.looseObject({}).default({}),
+  filter: z.string().optional(),
 });
 
-app.post('/v0/create-index', async (c) => {
-  const body = await c.req.json();
-  const { collection, keys, options } = validateWithZod(
-    CreateIndexSchema,
-    body,
+// Change events carry the document under these fields, so a filter on one of
+// their subpaths is a filter on the document's own fields
+const changeDocumentPaths = [
+  'fullDocument',
+  'fullDocumentBeforeChange',
+  'documentKey',
+  'updateDescription.updatedFields',
+];
+
+function assertChangeFieldsNotQueried(
+  match: Document,
+  policy: CredentialPolicy | undefined,
+) {
+  if (!policy || getPolicyFields(policy).length === 0) {
+    return;
+  }
+
+  const paths = getFilterPaths(match);
+  const operator = paths.find((path) => path.startsWith('$'));
+  if (operator) {
+    throw new HTTPException(403, {
+      message: `Credential is not allowed to use ${operator} on this collection`,
+    });
+  }
+
+  assertPolicyFieldsNotQueried(
+    paths.flatMap((path) => {
+      const prefix = changeDocumentPaths.find((candidate) =>
+        path.startsWith(`${candidate}.`),
+      );
+      if (prefix) {
+        return [path.slice(prefix.length + 1)];
+      }
+      // Matching a whole document or update description compares every field
+      return path.startsWith('updateDescription') ||
+        changeDocumentPaths.some((candidate) => pathsOverlap(candidate, path))
+        ? getPolicyFields(policy)
+        : [];
+    }),
+    policy,
   );
-  const result = await db.collection(collection).createIndex(keys, options);
+}
 
-  return c.json({
-    data: { indexName: result },
+function parseWatchFilter(
+  filter: string,
+  policy: CredentialPolicy | undefined,
+): Document {
+  let match: unknown;
+  try {
+    match = EJSON.parse(filter, { relaxed: true });
+  } catch {
+    match = null;
+  }
+
+  if (!isPlainObject(match)) {
+    throw new HTTPException(400, {
+      message: 'filter must be a JSON object',
+    });
+  }
+
+  const denied = findDeniedStage(match, deniedAggregationStages, 'filter');
+  if (denied) {
+    throw new HTTPException(400, {
+      message: `Operator ${denied.stage} is not allowed (${denied.path})`,
+    });
+  }
+
+  const violation = findQueryViolation(match, 'filter', 1, true);
+  if (violation) {
+    throw new HTTPException(400, { message: violation });
+  }
+
+  assertChangeFieldsNotQueried(match, policy);
+
+  return match;
+}
+
+// Every event's id is its resume token, so a client that reconnects with
+// Last-Event-ID continues right after the last event it received
+app.get('/v0/watch', async (c) => {
+  const { collection, filter } = validateWithZod(WatchSchema, c.req.query());
+  const mode = getEJSONMode(c);
+
+  authorize(c, 'watch', [collection]);
+
+  const policy = assertNoPolicyFilter(c, collection);
+
+  const pipeline =
+    filter === undefined ? [] : [{ $match: parseWatchFilter(filter, policy) }];
+
+  const lastEventId = c.req.header('last-event-id');
+  if (lastEventId !== undefined && !/^[0-9a-f]+$/i.test(lastEventId)) {
+    throw new HTTPException(400, { message: 'Invalid Last-Event-ID' });
+  }
+
+  if (watchConnections >= watchMaxConnections) {
+    throw new HTTPException(503, { message: 'Too many watch connections' });
+  }
+  watchConnections++;
+
+  const changeStream = c
+    .get('db')
+    .collection(collection)
+    .watch(pipeline, {
+      fullDocument: 'updateLookup',
+      ...(lastEventId ? { resumeAfter: { _data: lastEventId } } : {}),
+    });
+
+  // Open the change stream before responding, so a token that can't be
+  // resumed from is a normal error response rather than an SSE error event
+  let first: ChangeStreamDocument | null;
+  try {
+    first = await changeStream.tryNext();
+  } catch (error) {
+    watchConnections--;
+    await changeStream.close();
+
+    if (error instanceof MongoServerError && error.code === 286) {
+      throw new HTTPException(410, {
+        message: 'Events after Last-Event-ID are no longer available',
+      });
+    }
+    if (error instanceof MongoServerError && error.code === 260) {
+      throw new HTTPException(400, { message: 'Invalid Last-Event-ID' });
+    }
+    throw error;
+  }
+
+  requestLog(c, 'info', 'Watch connection opened', {
+    collection,
+    connections: watchConnections,
   });
+
+  const decrypt = canDecrypt(c);
+  const serialize = (change: ChangeStreamDocument) => {
+    const event = applyFieldPolicies(
+      decryptValues(change, decrypt),
+      policy?.hiddenFields ?? [],
+      policy?.redactedFields ?? [],
+    );
+    return mode
+      ? EJSON.stringify(event, { relaxed: mode === 'relaxed' })
+      : JSON.stringify(event);
+  };
+
+  return streamSSE(
+    c,
+    async (stream) => {
+      const heartbeat = setInterval(() => {
+        stream.write(': heartbeat\n\n');
+      }, watchHeartbeatMs);
+      stream.onAbort(() => changeStream.close());
+
+      try {
+        if (first) {
+          await stream.writeSSE({
+            event: 'change',
+            id: (first._id as { _data: string })._data,
+            data: serialize(first),
+          });
+        }
+
+        for await (const change of changeStream) {
+          await stream.writeSSE({
+            event: 'change',
+            id: (change._id as { _data: string })._data,
+            data: serialize(change),
+          });
+        }
+      } finally {
+        clearInterval(heartbeat);
+        watchConnections--;
+        await changeStream.close();
+
+        requestLog(c, 'info', 'Watch connection closed', {
+          collection,
+          connections: watchConnections,
+        });
+      }
+    },
+    async (error, stream) => {
+      if (!stream.aborted) {
+        errorLog('error', 'Watch change stream failed', error, { collection });
+      }
+    },
+  );
 });
 
 const TransactionOperationSchema = z.object({
-  type: z.enum(['findOneAndUpdate', 'insertOne', 'deleteOne']),
+  type: z.enum([
+    'find',
+    'findOne',
+    'count',
+    'insertOne',
+    'insertMany',
+    'findOneAndUpdate',
+    'updateMany',
+    'replaceOne',
+    'deleteOne',
+    'deleteMany',
+    'findOneAndDelete',
+  ]),
   collection: z.string(),
   filter: z.looseObject({}).optional(),
   document: z.looseObject({}).optional(),
+  documents: z.array(z.looseObject({})).optional(),
   update: z.looseObject({}).optional(),
+  replacement: z.looseObject({}).optional(),
   options: z.looseObject({}).default({}),
+  expectedVersion: z.number().int().nonnegative().optional(),
+  includeDeleted: z.boolean().default(false),
+  assert: z
+    .object({
+      matched: z.boolean().optional(),
+      count: z.number().optional(),
+      matchedCount: z.number().optional(),
+      modifiedCount: z.number().optional(),
+      deletedCount: z.number().optional(),
+      document: z.looseObject({}).optional(),
+    })
+    .optional(),
 });
 
+type TransactionOperation = z.infer<typeof TransactionOperationSchema>;
+
+const transactionOperationScopes: Record<
+  TransactionOperation['type'],
+  Operation
+> = {
+  find: 'read',
+  findOne: 'read',
+  count: 'read',
+  insertOne: 'write',
+  insertMany: 'write',
+  findOneAndUpdate: 'write',
+  updateMany: 'write',
+  replaceOne: 'write',
+  deleteOne: 'delete',
+  deleteMany: 'delete',
+  findOneAndDelete: 'delete',
+};
+
+// Operations can use values from the results of earlier operations with
+// { $result: '<index>.<path>' }, e.g. { $result: '0.insertedId' } or
+// { $result: '1.data.sku' }, which is replaced before the operation runs
+function resolveResultReferences(
+  value: unknown,
+  results: Document[],
+  step: number,
+): unknown {
+  if (Array.isArray(value)) {
+    return value.map((item) => resolveResultReferences(item, results, step));
+  }
+
+  if (!isPlainObject(value)) {
+    return value;
+  }
+
+  if (Object.keys(value).length === 1 && typeof value.$result === 'string') {
+    const reference = value.$result;
+    const [index = '', ...path] = reference.split('.');
+    const result = /^\d+$/.test(index) ? results[Number(index)] : undefined;
+    if (!result) {
+      throw new HTTPException(400, {
+        message: `Operation ${step} can only reference results of earlier operations (${reference})`,
+      });
+    }
+
+    const resolved = path.length > 0 ? getPath(result, path.join('.')) : result;
+    if (resolved === null) {
+      throw new HTTPException(400, {
+        message: `Operation ${step} references ${reference}, which has no value`,
+      });
+    }
+    return resolved;
+  }
+
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => [
+      key,
+      resolveResultReferences(item, results, step),
+    ]),
+  );
+}
+
+const transactionDocumentFields = [
+  'filter',
+  'document',
+  'update',
+  'replacement',
+] as const;
+
+// References can resolve to any value, so operations are validated again
+// once they're resolved. zod also takes ObjectIds and other BSON values for
+// objects, so filters, updates and documents have to be plain objects.
+function validateResolvedOperation(
+  operation: Document,
+  step: number,
+): TransactionOperation {
+  const result = TransactionOperationSchema.safeParse(operation);
+  const errors = result.success
+    ? []
+    : result.error.issues.map(
+        (issue) => `${issue.path.join('.')}: ${issue.message}`,
+      );
+  for (const field of transactionDocumentFields) {
+    if (operation[field] !== undefined && !isPlainObject(operation[field])) {
+      errors.push(`${field}: Expected a document`);
+    }
+  }
+  if (
+    Array.isArray(operation.documents) &&
+    !operation.documents.every((document) => isPlainObject(document))
+  ) {
+    errors.push('documents: Expected documents');
+  }
+
+  if (!result.success || errors.length > 0) {
+    throw new HTTPException(400, {
+      message: `Operation ${step} is invalid once its references are resolved: ${[...new Set(errors)].join(', ')}`,
+    });
+  }
+  return result.data;
+}
+
+type TransactionAssertion = NonNullable<TransactionOperation['assert']>;
+
+const assertedCounts = [
+  'count',
+  'matchedCount',
+  'modifiedCount',
+  'deletedCount',
+] as const;
+
+function resultMatched(result: Document) {
+  if ('data' in result) {
+    return Array.isArray(result.data)
+      ? result.data.length > 0
+      : result.data !== null;
+  }
+
+  const count = assertedCounts.find((field) => field in result);
+  return count ? result[count] > 0 : true;
+}
+
+// Returns why the result of an operation fails its assertion, or null if it
+// passes. Documents are matched against `document` by MongoDB itself, so the
+// filter has the same semantics as in a query.
+async function getAssertionFailure(
+  assertion: TransactionAssertion,
+  result: Document,
+): Promise<string | null> {
+  if (
+    assertion.matched !== undefined &&
+    resultMatched(result) !== assertion.matched
+  ) {
+    return assertion.matched
+      ? 'expected a match, got none'
+      : 'expected no match';
+  }
+
+  for (const field of assertedCounts) {
+    const expected = assertion[field];
+    if (expected !== undefined && result[field] !== expected) {
+      return `expected ${field} ${expected}, got ${result[field] ?? 'none'}`;
+    }
+  }
+
+  if (assertion.document) {
+    const documents = [result.data ?? []].flat();
+    if (documents.length === 0) {
+      return 'expected a document, got none';
+    }
+
+    const matching = await defaultDb
+      .aggregate([
+        { $documents: { $literal: documents } },
+        { $match: assertion.document },
+      ])
+      .toArray();
+    if (matching.length !== documents.length) {
+      return 'result does not match the asserted document filter';
+    }
+  }
+
+  return null;
+}
+
+const transactionDeleteOperations = new Set<TransactionOperation['type']>([
+  'deleteOne',
+  'deleteMany',
+  'findOneAndDelete',
+]);
+
+// Applies the collection's settings to a transaction operation, the same way
+// the document routes do
+function withCollectionSettings(
+  operation: TransactionOperation,
+  settings: AccessSettings,
+): TransactionOperation {
+  const { expectedVersion, document, documents, update } = operation;
+
+  if (expectedVersion !== undefined && !settings.versioning) {
+    throw new HTTPException(400, {
+      message: `Versioning is not enabled for collection ${operation.collection}`,
+    });
+  }
+
+  // Reads without a filter still get the managed one, writes keep requiring
+  // a filter of their own so they can't match every document by accident
+  const filter =
+    operation.filter || transactionOperationScopes[operation.type] === 'read'
+      ? toManagedFilter(
+          operation.filter ?? {},
+          settings,
+          operation.includeDeleted &&
+            !transactionDeleteOperations.has(operation.type),
+        )
+      : undefined;
+
+  return {
+    ...operation,
+    ...(filter ? { filter } : {}),
+    ...(filter && expectedVersion !== undefined
+      ? { filter: withExpectedVersion(filter, expectedVersion) }
+      : {}),
+    ...(document ? { document: toManagedDocument(document, settings) } : {}),
+    ...(documents
+      ? {
+          documents: documents.map((document) =>
+            toManagedDocument(document, settings),
+          ),
+        }
+      : {}),
+    ...(update ? { update: toManagedUpdate(update, settings) } : {}),
+  };
+}
+
+// Inserts and findOneAnd* operations report the documents they wrote, for
+// the others the ids come from the targets looked up before the write
+function getAuditDocumentIds(result: Document, targets: Document[]) {
+  if ('insertedId' in result) {
+    return [result.insertedId];
+  }
+  if ('insertedIds' in result) {
+    return result.insertedIds;
+  }
+  if ('data' in result) {
+    return result.data ? [result.data._id] : [];
+  }
+  if (result.deletedCount === 0) {
+    return [];
+  }
+
+  return [
+    ...targets.map((target) => target._id),
+    ...(result.upsertedId ? [result.upsertedId] : []),
+  ];
+}
+
 const TransactionSchema = z.object({
   operations: z.array(TransactionOperationSchema),
   transactionOptions: z.looseObject({}).default({}),
 });
 
 app.post('/v0/transaction', async (c) => {
-  const body = await c.req.json();
+  const body = await parseBody(c);
   const { operations, transactionOptions } = validateWithZod(
     TransactionSchema,
     body,
@@ -450,15 +5894,104 @@ app.post('/v0/transaction', async (c) => {
     });
   }
 
+  authorize(c, 'transaction');
+  for (const operation of operations) {
+    authorize(c, transactionOperationScopes[operation.type], [
+      operation.collection,
+    ]);
+  }
+
+  // Reset on every attempt, withTransaction retries the callback on
+  // transient errors
+  let auditChanges: AuditChange[] = [];
+
   const results = await client.withSession(async (session) =>
     session.withTransaction(
       async (session) => {
-        const operationResults = [];
+        const operationResults: Document[] = [];
+        auditChanges = [];
+
+        for (const [index, rawOperation] of operations.entries()) {
+          const resolved = validateResolvedOperation(
+            resolveResultReferences(
+              rawOperation,
+              operationResults,
+              index,
+            ) as Document,
+            index,
+          );
+          const settings = await getAccessSettings(c, resolved.collection);
+          const operation = withCollectionSettings(resolved, settings);
+          const collection = c.get('db').collection(operation.collection);
+          const isWrite = transactionOperationScopes[operation.type] !== 'read';
 
-        for (const operation of operations) {
-          const collection = db.collection(operation.collection);
+          const targets =
+            isWrite && operation.filter
+              ? await findAuditTargets(
+                  c.get('db'),
+                  operation.collection,
+                  operation.filter,
+                  {
+                    session,
+                    ...(operation.type.endsWith('Many') ? {} : { limit: 1 }),
+                  },
+                )
+              : [];
 
           switch (operation.type) {
+            case 'find': {
+              const { limit } = operation.options;
+              const pageSize = Math.min(
+                typeof limit === 'number' && limit > 0
+                  ? limit
+                  : findMaxPageSize,
+                findMaxPageSize,
+              );
+              const documents = await collection
+                .find(operation.filter ?? {}, {
+                  ...withReadLimits(operation.options),
+                  limit: pageSize,
+                  session,
+                })
+                .toArray();
+
+              operationResults.push({
+                type: 'find',
+                collection: operation.collection,
+                data: documents,
+                count: documents.length,
+              });
+              break;
+            }
+
+            case 'findOne': {
+              const document = await collection.findOne(
+                operation.filter ?? {},
+                { ...withReadLimits(operation.options), session },
+              );
+
+              operationResults.push({
+                type: 'findOne',
+                collection: operation.collection,
+                data: document,
+              });
+              break;
+            }
+
+            case 'count': {
+              const count = await collection.countDocuments(
+                operation.filter ?? {},
+                { ...withReadLimits(operation.options), session },
+              );
+
+              operationResults.push({
+                type: 'count',
+                collection: operation.collection,
+                count,
+              });
+              break;
+            }
+
             case 'findOneAndUpdate': {
               if (!operation.filter || !operation.update) {
                 throw new HTTPException(400, {
@@ -509,6 +6042,86 @@ app.post('/v0/transaction', async (c) => {
               break;
             }
 
+            case 'insertMany': {
+              if (!operation.documents) {
+                throw new HTTPException(400, {
+                  message: 'insertMany requires documents field',
+                });
+              }
+
+              const insertResult = await collection.insertMany(
+                operation.documents,
+                { ...operation.options, session },
+              );
+              const insertedIds = Object.values(insertResult.insertedIds);
+
+              const insertedDocuments = await collection
+                .find({ _id: { $in: insertedIds } }, { session })
+                .toArray();
+
+              operationResults.push({
+                type: 'insertMany',
+                collection: operation.collection,
+                data: insertedDocuments,
+                insertedIds,
+              });
+              break;
+            }
+
+            case 'updateMany': {
+              if (!operation.filter || !operation.update) {
+                throw new HTTPException(400, {
+                  message: 'updateMany requires filter and update fields',
+                });
+              }
+
+              const updateResult = await collection.updateMany(
+                operation.filter,
+                operation.update,
+                { ...operation.options, session },
+              );
+
+              operationResults.push({
+                type: 'updateMany',
+                collection: operation.collection,
+                matchedCount: updateResult.matchedCount,
+                modifiedCount: updateResult.modifiedCount,
+                upsertedId: updateResult.upsertedId,
+              });
+              break;
+            }
+
+            case 'replaceOne': {
+              if (!operation.filter || !operation.replacement) {
+                throw new HTTPException(400, {
+                  message: 'replaceOne requires filter and replacement fields',
+                });
+              }
+
+              const replacement = toManagedReplacement(
+                operation.replacement,
+                settings,
+              );
+              const replaceResult = Array.isArray(replacement)
+                ? await collection.updateOne(operation.filter, replacement, {
+                    ...operation.options,
+                    session,
+                  })
+                : await collection.replaceOne(operation.filter, replacement, {
+                    ...operation.options,
+                    session,
+                  });
+
+              operationResults.push({
+                type: 'replaceOne',
+                collection: operation.collection,
+                matchedCount: replaceResult.matchedCount,
+                modifiedCount: replaceResult.modifiedCount,
+                upsertedId: replaceResult.upsertedId,
+              });
+              break;
+            }
+
             case 'deleteOne': {
               if (!operation.filter) {
                 throw new HTTPException(400, {
@@ -516,22 +6129,139 @@ app.post('/v0/transaction', async (c) => {
                 });
               }
 
-              const deleteResult = await collection.deleteOne(
-                operation.filter,
-                {
-                  ...operation.options,
-                  session,
-                },
-              );
+              const deletedCount = settings.softDelete
+                ? (
+                    await collection.updateOne(
+                      operation.filter,
+                      getSoftDeleteUpdate(settings),
+                      { ...operation.options, session },
+                    )
+                  ).modifiedCount
+                : (
+                    await collection.deleteOne(operation.filter, {
+                      ...operation.options,
+                      session,
+                    })
+                  ).deletedCount;
 
               operationResults.push({
                 type: 'deleteOne',
                 collection: operation.collection,
-                deletedCount: deleteResult.deletedCount,
+                deletedCount,
+              });
+              break;
+            }
+
+            case 'deleteMany': {
+              if (!operation.filter) {
+                throw new HTTPException(400, {
+                  message: 'deleteMany requires filter field',
+                });
+              }
+
+              const deletedCount = settings.softDelete
+                ? (
+                    await collection.updateMany(
+                      operation.filter,
+                      getSoftDeleteUpdate(settings),
+                      { ...operation.options, session },
+                    )
+                  ).modifiedCount
+                : (
+                    await collection.deleteMany(operation.filter, {
+                      ...operation.options,
+                      session,
+                    })
+                  ).deletedCount;
+
+              operationResults.push({
+                type: 'deleteMany',
+                collection: operation.collection,
+                deletedCount,
+              });
+              break;
+            }
+
+            case 'findOneAndDelete': {
+              if (!operation.filter) {
+                throw new HTTPException(400, {
+                  message: 'findOneAndDelete requires filter field',
+                });
+              }
+
+              // The deleted document is returned as it was before deletedAt
+              // was set, matching what a hard delete returns
+              const result = settings.softDelete
+                ? await collection.findOneAndUpdate(
+                    operation.filter,
+                    getSoftDeleteUpdate(settings),
+                    { ...operation.options, session, returnDocument: 'before' },
+                  )
+                : await collection.findOneAndDelete(operation.filter, {
+                    ...operation.options,
+                    session,
+                  });
+
+              operationResults.push({
+                type: 'findOneAndDelete',
+                collection: operation.collection,
+                data: result,
               });
               break;
             }
           }
+
+          // Throwing aborts the transaction, so nothing before this
+          // operation is committed either
+          if (
+            resolved.expectedVersion !== undefined &&
+            resolved.filter &&
+            !resultMatched(operationResults[index] ?? {}) &&
+            (await isVersionMismatch(
+              c.get('db'),
+              resolved.collection,
+              toManagedFilter(resolved.filter, settings),
+              session,
+            ))
+          ) {
+            throw new HTTPException(412, {
+              message: `Document version does not match for operation ${index}`,
+            });
+          }
+
+          const failure =
+            operation.assert &&
+            (await getAssertionFailure(
+              operation.assert,
+              operationResults[index] ?? {},
+            ));
+          if (failure) {
+            throw new HTTPException(409, {
+              message: `Assertion failed for operation ${index}: ${failure}`,
+            });
+          }
+
+          if (isWrite) {
+            const { collection, filter, update, replacement } = resolved;
+            auditChanges.push(
+              await getAuditChange(
+                c.get('db'),
+                {
+                  operation: operation.type,
+                  collection,
+                  ...(filter ? { filter } : {}),
+                  ...(update ? { update } : {}),
+                  ...(replacement ? { replacement } : {}),
+                  documentIds: getAuditDocumentIds(
+                    operationResults[index] ?? {},
+                    targets,
+                  ),
+                },
+                targets,
+                session,
+              ),
+            );
+          }
         }
 
         return operationResults;
@@ -543,12 +6273,14 @@ app.post('/v0/transaction', async (c) => {
     ),
   );
 
+  await writeAuditLog(c, auditChanges);
+
   requestLog(c, 'info', 'Transaction completed successfully', {
     operationCount: operations.length,
     resultsCount: results.length,
   });
 
-  return c.json({
+  return jsonResponse(c, {
     data: results,
     operationCount: operations.length,
   });
@@ -564,6 +6296,13 @@ process.on('SIGINT', async () => {
 
 export async function startServer() {
   await initMongoDB();
+  await initCredentialsCollection();
+  await initNoncesCollection();
+  await initTenantsCollection();
+  await initIdempotencyKeysCollection();
+  await initAuditLog();
+  await initEncryption();
+  await initWebhooks();
 
   const port = process.env.PORT ? Number.parseInt(process.env.PORT, 10) : 3000;
 